@@ -2,13 +2,17 @@ import resolve from "@rollup/plugin-node-resolve";
 import sass from "rollup-plugin-sass";
 import typescript from "rollup-plugin-typescript2";
 
-import pkg from "./package.json" with { type: "json" };
-
 export default {
-  input: "src/index.ts",
+  input: {
+    index: "src/index.ts",
+    fakeServer: "src/fakeServer/index.ts",
+    server: "src/server.ts",
+  },
+  // Node built-ins used by the fake server, which only runs in Node.
+  external: ["crypto", "http", "net", "stream"],
   output: [
     {
-      file: pkg.main,
+      dir: "dist",
       format: "esm",
       exports: "named",
       sourcemap: true,
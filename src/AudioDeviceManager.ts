@@ -0,0 +1,298 @@
+import { getMicrophoneTrack } from "./audio";
+import { MicrophoneError, SanasError } from "./errors";
+import { SanasTranslationClient } from "./SanasTranslationClient";
+
+const DEFAULT_STORAGE_KEY = "sanas.audioDevices";
+
+export interface AudioDevices {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+/** The part of the Web Storage API used to remember preferred devices. */
+export interface DevicePreferenceStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface AudioDeviceManagerOptions {
+  /** Client whose input is swapped without reconnecting when the mic changes. */
+  client?: SanasTranslationClient;
+  /** Capture sample rate requested from getUserMedia. Defaults to 16000. */
+  sampleRate?: number;
+  /** Constraints for opening microphones. The device ID is added per device. */
+  // eslint-disable-next-line no-undef
+  constraints?: MediaTrackConstraints;
+  /** Where preferred devices are kept. Defaults to localStorage; null disables. */
+  storage?: DevicePreferenceStorage | null;
+  /** Storage key for the preferred devices. Defaults to "sanas.audioDevices". */
+  storageKey?: string;
+  /** Fires when devices are plugged in or removed. */
+  onDevicesChange?: (devices: AudioDevices) => void;
+  /** Fires when a new microphone track is in use, selected or fallen back to. */
+  onTrackChange?: (track: MediaStreamTrack) => void;
+  /** Fires when falling back after a device change fails. */
+  onError?: (error: SanasError) => void;
+}
+
+interface DevicePreferences {
+  input?: string;
+  output?: string;
+}
+
+/**
+ * Enumerates audio devices, remembers the user's preferred input and output,
+ * and keeps a microphone track open across hot-plugging: when the active mic
+ * is unplugged it falls back to the default one, and it returns to the
+ * preferred mic when that is plugged back in. With a `client`, a connected
+ * session keeps running on the new track.
+ *
+ * The manager owns the tracks it opens and stops them when they are replaced
+ * or on dispose().
+ */
+export class AudioDeviceManager {
+  private options: AudioDeviceManagerOptions;
+  private storage: DevicePreferenceStorage | null;
+  private preferences: DevicePreferences;
+  private _track: MediaStreamTrack | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private listening = false;
+  private disposed = false;
+
+  constructor(options: AudioDeviceManagerOptions = {}) {
+    this.options = options;
+    this.storage =
+      options.storage === undefined ? defaultStorage() : options.storage;
+    this.preferences = this.loadPreferences();
+  }
+
+  /** The microphone track in use, once opened. */
+  get track(): MediaStreamTrack | null {
+    return this._track;
+  }
+
+  /** Device ID of the microphone in use. */
+  get activeInputId(): string | null {
+    return this._track?.getSettings().deviceId ?? null;
+  }
+
+  get preferredInputId(): string | null {
+    return this.preferences.input ?? null;
+  }
+
+  get preferredOutputId(): string | null {
+    return this.preferences.output ?? null;
+  }
+
+  /** Audio inputs and outputs. Labels are empty until mic access is granted. */
+  async listDevices(): Promise<AudioDevices> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return {
+      inputs: devices.filter((device) => device.kind === "audioinput"),
+      outputs: devices.filter((device) => device.kind === "audiooutput"),
+    };
+  }
+
+  /**
+   * Open the preferred microphone, or the default one if it is gone, and
+   * start following device changes. Pass the track to client.connect().
+   */
+  async openMicrophone(): Promise<MediaStreamTrack> {
+    this.throwIfDisposed();
+    this.listen();
+    return this.enqueue(
+      async () => this._track ?? this.switchTo(this.preferences.input, true),
+    );
+  }
+
+  /**
+   * Use and remember an input device. An open microphone is replaced at once;
+   * unlike automatic fallback, this fails if the device is unavailable.
+   */
+  async selectInput(deviceId: string): Promise<void> {
+    this.throwIfDisposed();
+    this.savePreferences({ ...this.preferences, input: deviceId });
+    await this.enqueue(async () => {
+      if (this._track) await this.switchTo(deviceId, false);
+    });
+  }
+
+  /** Use and remember an output device, routing `element` to it if given. */
+  async selectOutput(
+    deviceId: string,
+    element?: HTMLMediaElement,
+  ): Promise<void> {
+    this.savePreferences({ ...this.preferences, output: deviceId });
+    if (element) await this.applyOutput(element);
+  }
+
+  /** Route `element` to the preferred output, where setSinkId is supported. */
+  async applyOutput(element: HTMLMediaElement): Promise<void> {
+    const sink = element as HTMLMediaElement & {
+      setSinkId?: (deviceId: string) => Promise<void>;
+    };
+    if (this.preferences.output && sink.setSinkId) {
+      await sink.setSinkId(this.preferences.output);
+    }
+  }
+
+  /** Stop following device changes and stop the microphone track. */
+  dispose(): void {
+    this.disposed = true;
+    if (this.listening) {
+      navigator.mediaDevices.removeEventListener(
+        "devicechange",
+        this.handleDeviceChange,
+      );
+      this.listening = false;
+    }
+    if (this._track) {
+      this._track.onended = null;
+      this._track.stop();
+      this._track = null;
+    }
+  }
+
+  // --- Internal ---
+
+  private listen(): void {
+    if (this.listening) return;
+    navigator.mediaDevices.addEventListener(
+      "devicechange",
+      this.handleDeviceChange,
+    );
+    this.listening = true;
+  }
+
+  /** Run device switches one at a time. */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private handleDeviceChange = (): void => {
+    this.enqueue(async () => {
+      const devices = await this.listDevices();
+      if (this.disposed) return;
+      this.options.onDevicesChange?.(devices);
+      if (!this._track) return;
+
+      const isAvailable = (deviceId: string | null | undefined) =>
+        !!deviceId &&
+        devices.inputs.some((device) => device.deviceId === deviceId);
+      const preferred = this.preferences.input;
+      const active = this.activeInputId;
+      if (isAvailable(preferred) && preferred !== active) {
+        await this.switchTo(preferred, true);
+      } else if (this._track.readyState === "ended" || !isAvailable(active)) {
+        await this.switchTo(
+          isAvailable(preferred) ? preferred : undefined,
+          true,
+        );
+      }
+    }).catch((err) => this.reportError(err));
+  };
+
+  private handleTrackEnded(track: MediaStreamTrack): void {
+    this.enqueue(async () => {
+      if (this._track !== track || this.disposed) return;
+      await this.switchTo(this.preferences.input, true);
+    }).catch((err) => this.reportError(err));
+  }
+
+  /**
+   * Open `deviceId` (or the default mic), hand it to a connected client and
+   * only then retire the previous track, so a failure leaves audio flowing.
+   */
+  private async switchTo(
+    deviceId: string | undefined,
+    fallBackToDefault: boolean,
+  ): Promise<MediaStreamTrack> {
+    let track: MediaStreamTrack;
+    try {
+      track = await this.openTrack(deviceId);
+    } catch (err) {
+      const isMissing =
+        err instanceof MicrophoneError && err.reason === "not-found";
+      if (!deviceId || !fallBackToDefault || !isMissing) throw err;
+      track = await this.openTrack(undefined);
+    }
+
+    if (this.disposed) {
+      track.stop();
+      throw new Error("AudioDeviceManager was disposed.");
+    }
+    const client = this.options.client;
+    if (client?.isConnected) {
+      try {
+        await client.replaceAudioTrack(track);
+      } catch (err) {
+        track.stop();
+        throw err;
+      }
+    }
+
+    const previous = this._track;
+    if (previous) {
+      previous.onended = null;
+      previous.stop();
+    }
+    this._track = track;
+    track.onended = () => this.handleTrackEnded(track);
+    this.options.onTrackChange?.(track);
+    return track;
+  }
+
+  private openTrack(deviceId: string | undefined): Promise<MediaStreamTrack> {
+    return getMicrophoneTrack({
+      deviceId,
+      sampleRate: this.options.sampleRate,
+      constraints: this.options.constraints,
+    });
+  }
+
+  private reportError(err: unknown): void {
+    if (this.disposed) return;
+    this.options.onError?.(
+      err instanceof SanasError
+        ? err
+        : new MicrophoneError("Unable to switch microphones.", { cause: err }),
+    );
+  }
+
+  private throwIfDisposed(): void {
+    if (this.disposed) throw new Error("AudioDeviceManager was disposed.");
+  }
+
+  private loadPreferences(): DevicePreferences {
+    try {
+      const saved = this.storage?.getItem(this.storageKey);
+      return saved ? (JSON.parse(saved) as DevicePreferences) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private savePreferences(preferences: DevicePreferences): void {
+    this.preferences = preferences;
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(preferences));
+    } catch {
+      // Storage can be full or blocked; the preference still holds for now.
+    }
+  }
+
+  private get storageKey(): string {
+    return this.options.storageKey ?? DEFAULT_STORAGE_KEY;
+  }
+}
+
+function defaultStorage(): DevicePreferenceStorage | null {
+  try {
+    return typeof localStorage !== "undefined" ? localStorage : null;
+  } catch {
+    // Reading localStorage throws where storage is blocked.
+    return null;
+  }
+}
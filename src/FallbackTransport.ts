@@ -0,0 +1,281 @@
+import { withDeadline } from "./deadline";
+import { NetworkError, SanasError } from "./errors";
+import {
+  ConnectOptions,
+  ConnectResult,
+  ResetOptions,
+  SanasTranslationClientOptions,
+  SendTextOptions,
+  Transport,
+  TransportCallbacks,
+} from "./types";
+import { WebRTCTransport, WebRTCTransportOptions } from "./WebRTCTransport";
+import {
+  WebSocketTransport,
+  WebSocketTransportOptions,
+} from "./WebSocketTransport";
+
+const DEFAULT_ATTEMPT_TIMEOUT_MS = 10000;
+
+const CONNECT_FAILED_MESSAGE =
+  "Unable to connect to translation server. Please try again later.";
+
+type AttemptStatus = "pending" | "selected" | "abandoned";
+
+export interface TransportCandidate {
+  /** Name reported when this transport is selected (e.g. "webrtc"). */
+  name: string;
+  /** Create a fresh transport for an attempt. */
+  create: () => Transport;
+  /** Whether this environment can run the transport. Defaults to true. */
+  isSupported?: () => boolean;
+  /** Attempt timeout for this transport in ms. Overrides the default. */
+  timeoutMs?: number;
+}
+
+export interface FallbackTransportOptions {
+  /** Transports to try, in order. Defaults to WebRTC, then WebSocket. */
+  transports?: TransportCandidate[];
+  /** Give up on an attempt after this many ms. Defaults to 10000. */
+  timeoutMs?: number;
+  /** Fires when a transport connects and will be used for the session. */
+  onTransportSelected?: (name: string, transport: Transport) => void;
+  /** Fires when a transport is skipped as unsupported or fails to connect. */
+  onAttemptFailed?: (name: string, error: Error) => void;
+}
+
+/** Whether the environment has RTCPeerConnection. */
+export function supportsWebRTC(): boolean {
+  return typeof RTCPeerConnection !== "undefined";
+}
+
+/** Whether the environment has AudioWorklet, used by WebSocketTransport for capture. */
+export function supportsAudioWorklet(): boolean {
+  return typeof AudioWorkletNode !== "undefined";
+}
+
+export function webRTCTransportCandidate(
+  options: WebRTCTransportOptions = {},
+): TransportCandidate {
+  return {
+    name: "webrtc",
+    create: () => new WebRTCTransport(options),
+    isSupported: supportsWebRTC,
+  };
+}
+
+export function webSocketTransportCandidate(
+  options: WebSocketTransportOptions = {},
+): TransportCandidate {
+  return {
+    name: "websocket",
+    create: () => new WebSocketTransport(options),
+    isSupported: () =>
+      (options.webSocket !== undefined || typeof WebSocket !== "undefined") &&
+      (options.headless === true || supportsAudioWorklet()),
+  };
+}
+
+/**
+ * A Transport that tries several transports in order and uses the first one
+ * that connects. Errors and disconnects from a failed attempt are not
+ * reported to the client; only the last attempt's error is, if all fail.
+ * Each reconnect starts again from the first transport.
+ */
+export class FallbackTransport implements Transport {
+  private options: FallbackTransportOptions;
+  private candidates: TransportCandidate[];
+  private active: Transport | null = null;
+  private attempting: Transport | null = null;
+  private _selectedTransport: string | null = null;
+  private attemptToken: object | null = null;
+
+  constructor(options: FallbackTransportOptions = {}) {
+    this.options = options;
+    this.candidates = options.transports ?? [
+      webRTCTransportCandidate(),
+      webSocketTransportCandidate(),
+    ];
+  }
+
+  get sessionId(): string | null {
+    return this.active?.sessionId ?? null;
+  }
+
+  /** Name of the transport in use, once connected. */
+  get selectedTransport(): string | null {
+    return this._selectedTransport;
+  }
+
+  /** The transport in use, once connected. */
+  get activeTransport(): Transport | null {
+    return this.active;
+  }
+
+  async connect(
+    options: ConnectOptions,
+    clientOptions: SanasTranslationClientOptions,
+    callbacks: TransportCallbacks,
+  ): Promise<ConnectResult> {
+    this.disconnect();
+    const token = {};
+    this.attemptToken = token;
+
+    let lastError: Error | null = null;
+    let lastHeldError: SanasError | null = null;
+
+    for (const candidate of this.candidates) {
+      if (candidate.isSupported && !candidate.isSupported()) {
+        this.options.onAttemptFailed?.(
+          candidate.name,
+          new NetworkError(
+            `${candidate.name} is not supported in this environment.`,
+            { recoverable: false },
+          ),
+        );
+        continue;
+      }
+
+      const transport = candidate.create();
+      this.attempting = transport;
+      let status: AttemptStatus = "pending";
+      const attemptCallbacks = this.attemptCallbacks(
+        callbacks,
+        () => status,
+        (error) => {
+          lastHeldError = error;
+        },
+      );
+
+      try {
+        const result = await withDeadline(
+          transport.connect(
+            { ...options, transport },
+            clientOptions,
+            attemptCallbacks,
+          ),
+          {
+            signal: options.signal,
+            timeoutMs:
+              candidate.timeoutMs ??
+              this.options.timeoutMs ??
+              DEFAULT_ATTEMPT_TIMEOUT_MS,
+          },
+          `Timed out connecting with ${candidate.name}.`,
+        );
+        if (this.attemptToken !== token) {
+          throw new Error("Connection attempt was cancelled.");
+        }
+
+        status = "selected";
+        this.attempting = null;
+        this.active = transport;
+        this._selectedTransport = candidate.name;
+        this.options.onTransportSelected?.(candidate.name, transport);
+        return result;
+      } catch (err) {
+        status = "abandoned";
+        transport.disconnect();
+        if (this.attempting === transport) this.attempting = null;
+        if (options.signal?.aborted || this.attemptToken !== token) throw err;
+
+        lastError = err instanceof Error ? err : new Error(String(err));
+        this.options.onAttemptFailed?.(candidate.name, lastError);
+      }
+    }
+
+    if (!lastError) {
+      throw new NetworkError(
+        "No supported transport is available in this environment.",
+        { recoverable: false },
+      );
+    }
+    callbacks.onError(
+      lastHeldError ?? new NetworkError(CONNECT_FAILED_MESSAGE),
+    );
+    throw lastError;
+  }
+
+  configure(options: ResetOptions): string | null {
+    return this.requireActive().configure(options);
+  }
+
+  disconnect(): void {
+    this.attemptToken = null;
+    this.attempting?.disconnect();
+    this.attempting = null;
+    this.active?.disconnect();
+    this.active = null;
+    this._selectedTransport = null;
+  }
+
+  drainAudio(): Promise<void> {
+    return this.active?.drainAudio() ?? Promise.resolve();
+  }
+
+  setAudioEnabled(enabled: boolean): void {
+    this.active?.setAudioEnabled(enabled);
+  }
+
+  replaceAudioTrack(track: MediaStreamTrack): Promise<void> {
+    const transport = this.requireActive();
+    if (!transport.replaceAudioTrack) {
+      throw new Error("Transport does not support replacing the audio track.");
+    }
+    return transport.replaceAudioTrack(track);
+  }
+
+  sendAudio(samples: Int16Array): void {
+    const transport = this.requireActive();
+    if (!transport.sendAudio) {
+      throw new Error("Transport does not accept raw audio input.");
+    }
+    transport.sendAudio(samples);
+  }
+
+  sendRecording(recording: "start" | "stop"): void {
+    this.requireActive().sendRecording?.(recording);
+  }
+
+  sendText(text: string, options: SendTextOptions): void {
+    const transport = this.requireActive();
+    if (!transport.sendText) {
+      throw new Error("Transport does not support text input.");
+    }
+    transport.sendText(text, options);
+  }
+
+  private requireActive(): Transport {
+    if (!this.active) {
+      throw new Error("Not connected. Call connect() first.");
+    }
+    return this.active;
+  }
+
+  /**
+   * Callbacks for one attempt. While it is pending, errors and disconnects are
+   * held back so a failed attempt does not surface to the client; once it is
+   * abandoned, nothing is forwarded.
+   */
+  private attemptCallbacks(
+    callbacks: TransportCallbacks,
+    status: () => AttemptStatus,
+    onHeldError: (error: SanasError) => void,
+  ): TransportCallbacks {
+    return {
+      ...callbacks,
+      onMessage: (message) => {
+        if (status() !== "abandoned") callbacks.onMessage(message);
+      },
+      onError: (error) => {
+        if (status() === "pending") onHeldError(error);
+        else if (status() === "selected") callbacks.onError(error);
+      },
+      onConnectionStateChange: (state) => {
+        if (status() === "abandoned") return;
+        if (status() === "pending" && state === "disconnected") return;
+        callbacks.onConnectionStateChange(state);
+      },
+    };
+  }
+}
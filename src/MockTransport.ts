@@ -0,0 +1,231 @@
+import { NetworkError, SanasError, ServerError } from "./errors";
+import {
+  ConnectOptions,
+  ConnectResult,
+  LTMessage,
+  ResetOptions,
+  SanasTranslationClientOptions,
+  SendTextOptions,
+  Transport,
+  TransportCallbacks,
+} from "./types";
+
+/** One scripted event. `delayMs` is relative to the previous step. */
+export type MockTransportStep =
+  | { delayMs?: number; message: LTMessage }
+  | { delayMs?: number; error: string | SanasError }
+  | { delayMs?: number; disconnect: true };
+
+export interface MockTransportOptions {
+  /**
+   * Steps played in order once the first configure() has been answered, or
+   * called when autoReady is off.
+   */
+  script?: MockTransportStep[];
+  /** Answer each configure() with a matching ready message. Defaults to true. */
+  autoReady?: boolean;
+  /** Delay before the automatic ready message, in ms. Defaults to 0. */
+  readyDelayMs?: number;
+  /** Make connect() fail with this error. A message becomes a NetworkError. */
+  failConnect?: string | SanasError;
+  /** Session ID reported once connected. Defaults to "mock-session". */
+  sessionId?: string;
+}
+
+/**
+ * A Transport that talks to no server, for application tests. It answers
+ * configure() with ready, plays a script of timed LT messages, records what
+ * it was asked to do and can simulate errors and disconnects. All timing goes
+ * through setTimeout, so it works with fake timers.
+ */
+export class MockTransport implements Transport {
+  /** Options passed to every connect() call, in order. */
+  readonly connectCalls: {
+    options: ConnectOptions;
+    clientOptions: SanasTranslationClientOptions;
+  }[] = [];
+  /** Options passed to every configure() call, in order. */
+  readonly configurations: ResetOptions[] = [];
+  /** Tracks passed to replaceAudioTrack(), in order. */
+  readonly replacedAudioTracks: MediaStreamTrack[] = [];
+  /** Raw PCM chunks passed to sendAudio(). */
+  readonly sentAudio: Int16Array[] = [];
+  /** Values passed to sendRecording(), in order. */
+  readonly recordings: ("start" | "stop")[] = [];
+  /** Text passed to sendText(), in order. */
+  readonly sentText: { text: string; options: SendTextOptions }[] = [];
+  /** Number of disconnect() calls. */
+  disconnectCount = 0;
+  /** Last value passed to setAudioEnabled(). */
+  audioEnabled = true;
+
+  private options: MockTransportOptions;
+  private callbacks: TransportCallbacks | null = null;
+  private _sessionId: string | null = null;
+  private timers: {
+    timer: ReturnType<typeof setTimeout>;
+    cancel: () => void;
+  }[] = [];
+  private scriptStarted = false;
+  private resetIdCounter = 0;
+
+  constructor(options: MockTransportOptions = {}) {
+    this.options = options;
+  }
+
+  get sessionId(): string | null {
+    return this._sessionId;
+  }
+
+  /** Whether the transport is currently connected. */
+  get isConnected(): boolean {
+    return this.callbacks !== null;
+  }
+
+  /** The most recent configure() options, if any. */
+  get lastConfiguration(): ResetOptions | undefined {
+    return this.configurations[this.configurations.length - 1];
+  }
+
+  async connect(
+    options: ConnectOptions,
+    clientOptions: SanasTranslationClientOptions,
+    callbacks: TransportCallbacks,
+  ): Promise<ConnectResult> {
+    this.connectCalls.push({ options, clientOptions });
+
+    if (this.options.failConnect) {
+      const error =
+        typeof this.options.failConnect === "string"
+          ? new NetworkError(this.options.failConnect)
+          : this.options.failConnect;
+      callbacks.onError(error);
+      throw error;
+    }
+
+    this.callbacks = callbacks;
+    this._sessionId = this.options.sessionId ?? "mock-session";
+    this.scriptStarted = false;
+    callbacks.onConnectionStateChange("connected");
+
+    return {
+      audio: typeof MediaStream === "function" ? new MediaStream() : null,
+    };
+  }
+
+  configure(options: ResetOptions): string {
+    const id = `mock-reset-${++this.resetIdCounter}`;
+    this.configurations.push(options);
+
+    if (this.options.autoReady ?? true) {
+      this.schedule(this.options.readyDelayMs ?? 0, () => {
+        this.emit({ type: "ready", ready: { id } });
+        this.startScript();
+      });
+    } else {
+      this.startScript();
+    }
+
+    return id;
+  }
+
+  disconnect(): void {
+    this.disconnectCount++;
+    this.teardown();
+  }
+
+  drainAudio(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  setAudioEnabled(enabled: boolean): void {
+    this.audioEnabled = enabled;
+  }
+
+  replaceAudioTrack(track: MediaStreamTrack): Promise<void> {
+    this.replacedAudioTracks.push(track);
+    return Promise.resolve();
+  }
+
+  sendAudio(samples: Int16Array): void {
+    this.sentAudio.push(samples);
+  }
+
+  sendRecording(recording: "start" | "stop"): void {
+    this.recordings.push(recording);
+  }
+
+  sendText(text: string, options: SendTextOptions): void {
+    this.sentText.push({ text, options });
+  }
+
+  /** Deliver a message from the "server" immediately. */
+  emit(message: LTMessage): void {
+    this.callbacks?.onMessage(message);
+  }
+
+  /** Report a transport error. A message becomes a ServerError. */
+  simulateError(error: string | SanasError): void {
+    this.callbacks?.onError(
+      typeof error === "string" ? new ServerError(error) : error,
+    );
+  }
+
+  /** Drop the connection as if the server went away. */
+  simulateDisconnect(): void {
+    const callbacks = this.callbacks;
+    this.teardown();
+    callbacks?.onConnectionStateChange("disconnected");
+  }
+
+  /**
+   * Play steps in order, each after its delay. Resolves once every step ran,
+   * or early if the transport disconnects.
+   */
+  async play(steps: MockTransportStep[]): Promise<void> {
+    for (const step of steps) {
+      if (!this.callbacks) return;
+      await new Promise<void>((resolve) =>
+        this.schedule(step.delayMs ?? 0, resolve, resolve),
+      );
+      if (!this.callbacks) return;
+
+      if ("message" in step) {
+        this.emit(step.message);
+      } else if ("error" in step) {
+        this.simulateError(step.error);
+      } else {
+        this.simulateDisconnect();
+      }
+    }
+  }
+
+  private startScript(): void {
+    if (this.scriptStarted || !this.options.script) return;
+    this.scriptStarted = true;
+    void this.play(this.options.script);
+  }
+
+  private teardown(): void {
+    const timers = this.timers;
+    this.timers = [];
+    this.callbacks = null;
+    this._sessionId = null;
+    for (const { timer, cancel } of timers) {
+      clearTimeout(timer);
+      cancel();
+    }
+  }
+
+  private schedule(
+    delayMs: number,
+    fn: () => void,
+    cancel: () => void = () => {},
+  ): void {
+    const timer = setTimeout(() => {
+      this.timers = this.timers.filter((t) => t.timer !== timer);
+      fn();
+    }, delayMs);
+    this.timers.push({ timer, cancel });
+  }
+}
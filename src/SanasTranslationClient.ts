@@ -1,14 +1,28 @@
+import { authHeaders, withTokenRefresh } from "./credentials";
+import { withDeadline } from "./deadline";
+import { AuthError, errorFromStatus, NetworkError, SanasError } from "./errors";
+import {
+  computeReconnectDelay,
+  onNetworkChange,
+  ResolvedReconnectOptions,
+  resolveReconnectOptions,
+  waitForReconnectDelay,
+} from "./reconnect";
 import { TranslationState } from "./TranslationState";
 import {
+  ConnectionState,
   ConnectOptions,
   ConnectResult,
+  Credentials,
   FetchLanguagesOptions,
   Language,
   LTMessage,
   ResetOptions,
   SanasTranslationClientOptions,
+  SendTextOptions,
   StreamMessage,
   Transport,
+  TransportCallbacks,
 } from "./types";
 
 export class SanasTranslationClient {
@@ -16,11 +30,23 @@ export class SanasTranslationClient {
   private translationState: TranslationState;
 
   private transport: Transport | null = null;
+  private connectOptions: ConnectOptions | null = null;
+  private transportGeneration = 0;
   private _isAudioEnabled = true;
+  private _isTalking = false;
+
+  private lastResetOptions: ResetOptions | null = null;
+  private reconnectOptions: ResolvedReconnectOptions | null = null;
+  private reconnectAbort: AbortController | null = null;
+  private reconnectPromise: Promise<string | null> | null = null;
+  private unsubscribeNetwork: (() => void) | null = null;
+  private utteranceIdxOffset = 0;
+  private nextUtteranceIdx = 0;
 
   private audioContext: AudioContext | null = null;
   private audioStreamStartTime = 0;
   private scheduledDelimiterNodes: AudioBufferSourceNode[] = [];
+  private scheduledDelimiterTimers: ReturnType<typeof setTimeout>[] = [];
 
   constructor(
     translationState: TranslationState,
@@ -30,48 +56,86 @@ export class SanasTranslationClient {
     this.options = options;
   }
 
+  /** Whether connect() has been called and disconnect() has not. */
+  get isConnected(): boolean {
+    return this.transport !== null;
+  }
+
+  /** Whether startTalking() was called without a later stopTalking(). */
+  get isTalking(): boolean {
+    return this._isTalking;
+  }
+
   // --- Lifecycle ---
 
   async connect(options: ConnectOptions): Promise<ConnectResult> {
     if (this.transport) {
       throw new Error("Already connected. Call disconnect() first.");
     }
+    options.signal?.throwIfAborted();
 
     this.handleIncomingMessage({ type: "transport", state: "connecting" });
 
     const transport = options.transport;
     this.transport = transport;
-
-    const ctx = new AudioContext();
-    this.audioContext = ctx;
-    await ctx.resume();
+    this.connectOptions = options;
+    this._isAudioEnabled = !options.pushToTalk;
+    this._isTalking = false;
 
     try {
-      const result = await transport.connect(options, this.options, {
-        onMessage: (msg: LTMessage) =>
-          this.handleIncomingMessage({ type: "lt", lt: msg }),
-        onError: (error: string) =>
-          this.handleIncomingMessage({ type: "error", message: error }),
-        onConnectionStateChange: (state) =>
-          this.handleIncomingMessage({ type: "transport", state }),
-        onAudioData: this.options.onAudioData,
-      });
-
-      // Keep the AudioContext clock running (for speech_delimiter scheduling)
-      // without consuming the audio stream, so callers can record/play it.
-      const osc = ctx.createOscillator();
-      const silentGain = ctx.createGain();
-      silentGain.gain.value = 0;
-      osc.connect(silentGain);
-      silentGain.connect(ctx.destination);
-      osc.start();
+      const ctx = this.options.headless ? null : new AudioContext();
+      this.audioContext = ctx;
+
+      // resume() can hang until the page gets a user gesture, so it counts
+      // against the deadline too. Don't connect if the deadline passed.
+      const generation = this.transportGeneration;
+      const connecting = (async () => {
+        await ctx?.resume();
+        if (generation !== this.transportGeneration) {
+          throw disconnectedError();
+        }
+        this.audioStreamStartTime = this.clockTime();
+        return transport.connect(
+          options,
+          this.options,
+          this.createTransportCallbacks(),
+        );
+      })();
+      const result = await withDeadline(
+        connecting,
+        options,
+        "Timed out connecting to the translation server.",
+      );
+
+      if (ctx) {
+        // Keep the AudioContext clock running (for speech_delimiter scheduling)
+        // without consuming the audio stream, so callers can record/play it.
+        const osc = ctx.createOscillator();
+        const silentGain = ctx.createGain();
+        silentGain.gain.value = 0;
+        osc.connect(silentGain);
+        silentGain.connect(ctx.destination);
+        osc.start();
+      }
 
       transport.setAudioEnabled(this._isAudioEnabled);
 
+      this.reconnectOptions = resolveReconnectOptions(options.reconnect);
+      if (this.reconnectOptions) {
+        this.unsubscribeNetwork = onNetworkChange((online) => {
+          if (!online) this.startReconnect();
+        });
+      }
+
       return result;
     } catch (err) {
       if (this.transport === transport) {
+        // Tear down whatever the transport built before failing or being
+        // abandoned, and ignore its late events.
+        this.transportGeneration++;
+        transport.disconnect();
         this.transport = null;
+        this.connectOptions = null;
       }
       this.cleanupAudioTracking();
       this.handleIncomingMessage({ type: "transport", state: "disconnected" });
@@ -87,19 +151,22 @@ export class SanasTranslationClient {
   async drainAudio(): Promise<void> {
     const transportDrain = this.transport?.drainAudio() ?? Promise.resolve();
 
-    const delimiterDrain =
-      this.scheduledDelimiterNodes.length > 0
-        ? new Promise<void>((resolve) => {
-            const check = () => {
-              if (this.scheduledDelimiterNodes.length === 0) {
-                resolve();
-              } else {
-                setTimeout(check, 50);
-              }
-            };
-            check();
-          })
-        : Promise.resolve();
+    const hasScheduledDelimiters = () =>
+      this.scheduledDelimiterNodes.length > 0 ||
+      this.scheduledDelimiterTimers.length > 0;
+
+    const delimiterDrain = hasScheduledDelimiters()
+      ? new Promise<void>((resolve) => {
+          const check = () => {
+            if (!hasScheduledDelimiters()) {
+              resolve();
+            } else {
+              setTimeout(check, 50);
+            }
+          };
+          check();
+        })
+      : Promise.resolve();
 
     await Promise.all([transportDrain, delimiterDrain]);
   }
@@ -107,46 +174,141 @@ export class SanasTranslationClient {
   disconnect(): void {
     this.translationState.destroy();
 
+    this.reconnectAbort?.abort();
+    this.reconnectAbort = null;
+    this.reconnectPromise = null;
+    this.reconnectOptions = null;
+    this.unsubscribeNetwork?.();
+    this.unsubscribeNetwork = null;
+
+    this.transportGeneration++;
     if (this.transport) {
       this.transport.disconnect();
       this.transport = null;
     }
+    this.connectOptions = null;
+    this.lastResetOptions = null;
+    this._isAudioEnabled = true;
+    this._isTalking = false;
+    this.utteranceIdxOffset = 0;
+    this.nextUtteranceIdx = 0;
 
     this.cleanupAudioTracking();
 
     this.handleIncomingMessage({ type: "transport", state: "disconnected" });
   }
 
-  // --- REST API ---
+  /**
+   * Send audio from another track (e.g. a different microphone) without
+   * reconnecting: the session, conversation and TranslationState are kept,
+   * and later reconnects use the new track. The caller still owns, and
+   * should stop, the previous track.
+   */
+  async replaceAudioTrack(track: MediaStreamTrack): Promise<void> {
+    const transport = this.transport;
+    if (!transport || !this.connectOptions) {
+      throw new Error("Not connected. Call connect() first.");
+    }
+    if (!transport.replaceAudioTrack) {
+      throw new Error("Transport does not support replacing the audio track.");
+    }
 
-  static async fetchLanguages(
-    credentials: { apiKey?: string; accessToken?: string; endpoint: string },
-    options?: FetchLanguagesOptions,
-  ): Promise<Language[]> {
-    const headers: Record<string, string> = {};
+    // While reconnecting, the next attempt picks up the new track.
+    if (!this.reconnectPromise) {
+      await transport.replaceAudioTrack(track);
+      transport.setAudioEnabled(this._isAudioEnabled);
+    }
+    if (this.transport === transport && this.connectOptions) {
+      this.connectOptions = {
+        ...this.connectOptions,
+        audioTrack: track,
+        audioSource: undefined,
+      };
+    }
+  }
 
-    if (credentials.accessToken) {
-      headers["Authorization"] = `Bearer ${credentials.accessToken}`;
-    } else if (credentials.apiKey) {
-      headers["X-API-Key"] = credentials.apiKey;
-    } else {
-      throw new Error("Missing credentials: provide apiKey or accessToken.");
+  /**
+   * Push-to-talk: unmute the input and tell the server speech has started.
+   * Connect with `pushToTalk: true` to stay muted until the first call.
+   */
+  startTalking(): void {
+    this.setTalking(true);
+  }
+
+  /**
+   * Mute the input and tell the server speech has stopped, so it finalizes
+   * the utterance now instead of waiting for silence.
+   */
+  stopTalking(): void {
+    this.setTalking(false);
+  }
+
+  /**
+   * Send raw Int16 PCM input at the input sample rate. Only supported by
+   * transports that take PCM directly, such as a headless WebSocketTransport.
+   */
+  sendAudio(samples: Int16Array): void {
+    if (!this.transport) {
+      throw new Error("Not connected. Call connect() first.");
     }
+    if (!this.transport.sendAudio) {
+      throw new Error("Transport does not accept raw audio input.");
+    }
+    this.transport.sendAudio(samples);
+  }
 
-    if (options?.lang) {
-      headers["x-lang"] = options.lang;
+  /**
+   * Translate typed text (e.g. a chat message) as its own utterance. Its
+   * transcription and translation reach the TranslationState like spoken
+   * ones, flagged `typed`. Connect with `textOnly: true` to send no audio.
+   */
+  sendText(text: string, options: SendTextOptions = {}): void {
+    if (!this.transport) {
+      throw new Error("Not connected. Call connect() first.");
+    }
+    if (!this.transport.sendText) {
+      throw new Error("Transport does not support text input.");
     }
+    if (this.reconnectPromise) {
+      throw new NetworkError("Reconnecting to the translation server.");
+    }
+    if (text.trim().length === 0) return;
+    this.transport.sendText(text, options);
+  }
 
-    const response = await fetch(`${credentials.endpoint}/v2/languages/list`, {
-      method: "POST",
-      headers,
-    });
+  // --- REST API ---
+
+  static async fetchLanguages(
+    credentials: Credentials & { endpoint: string },
+    options?: FetchLanguagesOptions,
+  ): Promise<Language[]> {
+    // The languages endpoint answers rejected credentials with 403.
+    const isRejected = (response: Response) =>
+      response.status === 401 || response.status === 403;
+
+    const response = await withTokenRefresh(
+      credentials,
+      (auth) =>
+        fetch(`${credentials.endpoint}/v2/languages/list`, {
+          method: "POST",
+          headers: {
+            ...authHeaders(auth),
+            ...(options?.lang ? { "x-lang": options.lang } : {}),
+          },
+        }),
+      isRejected,
+    );
 
     if (!response.ok) {
-      if (response.status === 403) {
-        throw new Error("Authentication failed.");
+      if (isRejected(response)) {
+        throw new AuthError("Authentication failed.", {
+          status: response.status,
+        });
       }
-      throw new Error(`Failed to fetch languages: ${response.status}`);
+      throw errorFromStatus(
+        response.status,
+        `Failed to fetch languages: ${response.status}`,
+      );
     }
 
     const body = await response.json();
@@ -164,13 +326,238 @@ export class SanasTranslationClient {
     if (!this.transport) {
       throw new Error("Not connected. Call connect() first.");
     }
+    options.signal?.throwIfAborted();
+
+    this.lastResetOptions = options;
+
+    if (this.reconnectPromise) {
+      // The reconnect re-sends the latest reset options once the transport is
+      // back, so wait for the ready that answers that configure.
+      const resetId = await withDeadline(
+        this.reconnectPromise,
+        options,
+        "Timed out waiting for the translation server to be ready.",
+      );
+      await this.translationState.waitForReady(resetId, options);
+      return;
+    }
 
     const resetId = this.transport.configure(options);
-    await this.translationState.waitForReady(resetId);
+    await this.translationState.waitForReady(resetId, options);
   }
 
   // --- Internal ---
 
+  private setTalking(talking: boolean): void {
+    const transport = this.transport;
+    if (!transport) {
+      throw new Error("Not connected. Call connect() first.");
+    }
+    if (this._isTalking === talking) return;
+    this._isTalking = talking;
+    this._isAudioEnabled = talking;
+
+    // While reconnecting, the next attempt applies the new state.
+    if (this.reconnectPromise) return;
+    transport.setAudioEnabled(talking);
+    transport.sendRecording?.(talking ? "start" : "stop");
+  }
+
+  private createTransportCallbacks(): TransportCallbacks {
+    // Events from a connection that has since been replaced (by a reconnect or
+    // a disconnect) are ignored.
+    const generation = ++this.transportGeneration;
+    const isCurrent = () => generation === this.transportGeneration;
+
+    return {
+      onMessage: (msg: LTMessage) => {
+        if (!isCurrent()) return;
+        this.handleIncomingMessage({
+          type: "lt",
+          lt: this.offsetUtteranceIdx(msg),
+        });
+      },
+      onError: (error: SanasError) => {
+        if (!isCurrent()) return;
+        this.handleIncomingMessage(error.toStreamMessage());
+      },
+      onConnectionStateChange: (state) => {
+        if (!isCurrent()) return;
+        this.handleTransportStateChange(state);
+      },
+      onAudioData: this.options.onAudioData,
+      onQualityMetrics: this.options.onQualityMetrics
+        ? (metrics) => {
+            if (!isCurrent()) return;
+            this.options.onQualityMetrics?.(metrics);
+          }
+        : undefined,
+    };
+  }
+
+  private handleTransportStateChange(state: ConnectionState): void {
+    // While reconnecting, the reconnect loop reports progress itself.
+    if (this.reconnectPromise) return;
+
+    if (state === "disconnected" && this.reconnectOptions) {
+      this.startReconnect();
+      return;
+    }
+
+    this.handleIncomingMessage({ type: "transport", state });
+  }
+
+  private startReconnect(): void {
+    const transport = this.transport;
+    const options = this.reconnectOptions;
+    if (!transport || !options || this.reconnectPromise) return;
+
+    this.handleIncomingMessage({ type: "transport", state: "reconnecting" });
+
+    this.transportGeneration++;
+    transport.disconnect();
+
+    const abort = new AbortController();
+    this.reconnectAbort = abort;
+
+    const promise = this.reconnect(transport, options, abort.signal);
+    this.reconnectPromise = promise;
+
+    const settle = () => {
+      if (this.reconnectPromise === promise) {
+        this.reconnectPromise = null;
+        this.reconnectAbort = null;
+      }
+    };
+    promise.then(settle, settle);
+  }
+
+  /**
+   * Re-establish the transport with exponential backoff. Resolves with the
+   * reset ID of the re-sent configuration (or null if none was sent).
+   */
+  private async reconnect(
+    transport: Transport,
+    options: ResolvedReconnectOptions,
+    signal: AbortSignal,
+  ): Promise<string | null> {
+    let attempts = 0;
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+      attempts = attempt;
+      const delayMs = computeReconnectDelay(attempt, options);
+      options.onReconnecting?.(attempt, delayMs);
+      await waitForReconnectDelay(delayMs, signal);
+      if (signal.aborted) throw disconnectedError();
+
+      // Each server session restarts utterance indices from zero.
+      this.utteranceIdxOffset = this.nextUtteranceIdx;
+
+      let result: ConnectResult;
+      try {
+        result = await withDeadline(
+          transport.connect(
+            this.connectOptions!,
+            this.options,
+            this.createTransportCallbacks(),
+          ),
+          { signal, timeoutMs: this.connectOptions?.timeoutMs },
+          "Timed out connecting to the translation server.",
+        );
+      } catch (err) {
+        if (signal.aborted) throw disconnectedError();
+        lastError = err;
+        this.transportGeneration++;
+        transport.disconnect();
+        // Retrying cannot fix e.g. rejected credentials.
+        if (err instanceof SanasError && !err.recoverable) break;
+        continue;
+      }
+      if (signal.aborted) throw disconnectedError();
+
+      // Delimiters from the previous session refer to audio that is gone.
+      this.cancelScheduledDelimiters();
+      this.audioStreamStartTime = this.clockTime();
+
+      transport.setAudioEnabled(this._isAudioEnabled);
+      const resetId = this.lastResetOptions
+        ? transport.configure(this.lastResetOptions)
+        : null;
+      if (this._isTalking) transport.sendRecording?.("start");
+
+      this.handleIncomingMessage({ type: "transport", state: "connected" });
+      options.onReconnected?.(result, attempt);
+      return resetId;
+    }
+
+    options.onReconnectFailed?.(attempts);
+    this.disconnect();
+    throw new NetworkError("Reconnection failed.", {
+      cause: lastError,
+      recoverable: false,
+    });
+  }
+
+  /**
+   * Shift utterance indices past the ones used by previous connections and
+   * remember the next free index.
+   */
+  private offsetUtteranceIdx(message: LTMessage): LTMessage {
+    const offset = this.utteranceIdxOffset;
+    switch (message.type) {
+      case "transcription": {
+        const utteranceIdx = message.transcription.utterance_idx + offset;
+        this.nextUtteranceIdx = Math.max(
+          this.nextUtteranceIdx,
+          utteranceIdx + 1,
+        );
+        if (offset === 0) return message;
+        return {
+          ...message,
+          transcription: {
+            ...message.transcription,
+            utterance_idx: utteranceIdx,
+          },
+        };
+      }
+      case "translation": {
+        const utteranceIdx = message.translation.utterance_idx + offset;
+        this.nextUtteranceIdx = Math.max(
+          this.nextUtteranceIdx,
+          utteranceIdx + 1,
+        );
+        if (offset === 0) return message;
+        return {
+          ...message,
+          translation: {
+            ...message.translation,
+            utterance_idx: utteranceIdx,
+          },
+        };
+      }
+      case "speech_delimiter": {
+        if (offset === 0) return message;
+        const { transcription, translation } = message.speech_delimiter;
+        return {
+          ...message,
+          speech_delimiter: {
+            ...message.speech_delimiter,
+            transcription: {
+              ...transcription,
+              utterance_idx: transcription.utterance_idx + offset,
+            },
+            translation: {
+              ...translation,
+              utterance_idx: translation.utterance_idx + offset,
+            },
+          },
+        };
+      }
+      default:
+        return message;
+    }
+  }
+
   private handleIncomingMessage(message: StreamMessage): void {
     this.options.onMessage?.(message);
     if (message.type === "lt" && message.lt.type === "speech_delimiter") {
@@ -181,6 +568,11 @@ export class SanasTranslationClient {
   }
 
   private scheduleSpeechDelimiter(message: LTMessage): void {
+    if (this.options.headless) {
+      this.scheduleSpeechDelimiterTimer(message);
+      return;
+    }
+
     if (!this.audioContext) {
       this.translationState.handleMessage({ type: "lt", lt: message });
       return;
@@ -209,6 +601,32 @@ export class SanasTranslationClient {
     this.scheduledDelimiterNodes.push(source);
   }
 
+  /** Headless counterpart of scheduleSpeechDelimiter, using timers. */
+  private scheduleSpeechDelimiterTimer(message: LTMessage): void {
+    if (message.type !== "speech_delimiter") return;
+
+    const scheduledTime =
+      this.audioStreamStartTime + message.speech_delimiter.time;
+    const delayMs = Math.max(0, (scheduledTime - this.clockTime()) * 1000);
+
+    const timer = setTimeout(() => {
+      const idx = this.scheduledDelimiterTimers.indexOf(timer);
+      if (idx !== -1) {
+        this.scheduledDelimiterTimers.splice(idx, 1);
+      }
+      this.translationState.handleMessage({ type: "lt", lt: message });
+    }, delayMs);
+    this.scheduledDelimiterTimers.push(timer);
+  }
+
+  /** Seconds on the clock speech delimiters are scheduled against. */
+  private clockTime(): number {
+    if (this.options.headless) {
+      return performance.now() / 1000;
+    }
+    return this.audioContext?.currentTime ?? 0;
+  }
+
   private cancelScheduledDelimiters(): void {
     for (const node of this.scheduledDelimiterNodes) {
       node.onended = null;
@@ -220,6 +638,11 @@ export class SanasTranslationClient {
       node.disconnect();
     }
     this.scheduledDelimiterNodes = [];
+
+    for (const timer of this.scheduledDelimiterTimers) {
+      clearTimeout(timer);
+    }
+    this.scheduledDelimiterTimers = [];
   }
 
   private cleanupAudioTracking(): void {
@@ -231,3 +654,8 @@ export class SanasTranslationClient {
     this.audioStreamStartTime = 0;
   }
 }
+
+/** Why a connect or reconnect stops when disconnect() is called mid-way. */
+function disconnectedError(): NetworkError {
+  return new NetworkError("Disconnected", { recoverable: false });
+}
@@ -0,0 +1,338 @@
+import { SanasTranslationClient } from "./SanasTranslationClient";
+import { TranslationState } from "./TranslationState";
+import {
+  ConnectionState,
+  ConnectOptions,
+  ResetOptions,
+  SanasTranslationClientOptions,
+  SendTextOptions,
+  TranslationStateCallbacks,
+  Transport,
+  TurnState,
+} from "./types";
+
+export interface FanOutTarget {
+  /** Output language code (e.g. "es-ES"). */
+  langOut: string;
+  /** Voice ID for this language, overriding the one passed to reset(). */
+  voiceId?: string | null;
+  /** Callbacks for this language's TranslationState. */
+  callbacks?: TranslationStateCallbacks;
+  /** Client options for this language, merged over the shared ones. */
+  clientOptions?: Partial<SanasTranslationClientOptions>;
+}
+
+export interface TranslationFanOutOptions {
+  /**
+   * Options shared by every language's client. A shared onAudioData gets
+   * every language's audio without telling them apart; set it in each
+   * target's clientOptions instead.
+   */
+  clientOptions: SanasTranslationClientOptions;
+  /** One session per target language. */
+  targets: FanOutTarget[];
+  /** Create a transport for a language's session, on every connect(). */
+  createTransport: (langOut: string) => Transport;
+  /** Fires when a language's connection state, readiness or error changes. */
+  onStatusChange?: (status: FanOutStatus) => void;
+}
+
+export interface FanOutConnectOptions extends Omit<
+  ConnectOptions,
+  "transport" | "audioSource" | "onAudioSourceEnd" | "onTurnStateChange"
+> {
+  /** Fires as turns change in consecutive mode, per language. */
+  onTurnStateChange?: (langOut: string, state: TurnState) => void;
+}
+
+export type FanOutResetOptions = Omit<ResetOptions, "langOut">;
+
+export interface FanOutStatus {
+  langOut: string;
+  connectionState: ConnectionState;
+  /** Whether the last reset() for this language completed. */
+  ready: boolean;
+  /** The last error for this language, cleared by a new connect(). */
+  error: Error | null;
+}
+
+interface FanOutSession {
+  target: FanOutTarget;
+  state: TranslationState;
+  client: SanasTranslationClient;
+  /** This session's clone of the shared input track. */
+  track: MediaStreamTrack | null;
+  audio: MediaStream | null;
+  ready: boolean;
+  error: Error | null;
+}
+
+/**
+ * Translates one speaker into several languages at once. Each target
+ * language gets its own session: a SanasTranslationClient, TranslationState,
+ * transport and output stream. The input track is shared; every session
+ * sends its own clone, so the caller still owns, and should stop, the track.
+ *
+ * Languages are independent: one failing to connect or dropping leaves the
+ * others running, and its status() reports why.
+ */
+export class TranslationFanOut {
+  private options: TranslationFanOutOptions;
+  private sessions = new Map<string, FanOutSession>();
+
+  constructor(options: TranslationFanOutOptions) {
+    this.options = options;
+    for (const target of options.targets) {
+      if (this.sessions.has(target.langOut)) {
+        throw new Error(`Duplicate target language: ${target.langOut}`);
+      }
+      this.sessions.set(target.langOut, this.createSession(target));
+    }
+  }
+
+  /** Target languages, in the order they were given. */
+  get languages(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  /** Whether any language is connected. */
+  get isConnected(): boolean {
+    return [...this.sessions.values()].some(
+      (session) => session.client.isConnected,
+    );
+  }
+
+  /** The TranslationState of a target language. */
+  state(langOut: string): TranslationState {
+    return this.session(langOut).state;
+  }
+
+  /** The client of a target language, for per-language control. */
+  client(langOut: string): SanasTranslationClient {
+    return this.session(langOut).client;
+  }
+
+  /** A language's translated audio, or null when headless or not connected. */
+  audio(langOut: string): MediaStream | null {
+    return this.session(langOut).audio;
+  }
+
+  status(langOut: string): FanOutStatus {
+    const session = this.session(langOut);
+    return {
+      langOut,
+      connectionState: session.state.connectionState,
+      ready: session.ready,
+      error: session.error,
+    };
+  }
+
+  /** Status of every target language. */
+  statuses(): FanOutStatus[] {
+    return this.languages.map((langOut) => this.status(langOut));
+  }
+
+  /**
+   * Connect every language. Resolves once each has connected or failed, with
+   * the languages that connected; fails only if none did.
+   */
+  async connect(options: FanOutConnectOptions = {}): Promise<string[]> {
+    if (this.isConnected) {
+      throw new Error("Already connected. Call disconnect() first.");
+    }
+    const { onTurnStateChange, audioTrack, ...shared } = options;
+
+    const results = await Promise.allSettled(
+      [...this.sessions.entries()].map(async ([langOut, session]) => {
+        session.error = null;
+        session.ready = false;
+        session.track = audioTrack?.clone() ?? null;
+        try {
+          const result = await session.client.connect({
+            ...shared,
+            transport: this.options.createTransport(langOut),
+            audioTrack: session.track ?? undefined,
+            onTurnStateChange:
+              onTurnStateChange &&
+              ((state) => onTurnStateChange(langOut, state)),
+          });
+          session.audio = result.audio;
+        } catch (err) {
+          this.releaseTrack(session);
+          this.setError(session, err);
+          throw err;
+        }
+        return langOut;
+      }),
+    );
+
+    const connected = results.flatMap((result) =>
+      result.status === "fulfilled" ? [result.value] : [],
+    );
+    if (connected.length === 0 && results.length > 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    return connected;
+  }
+
+  /**
+   * Configure every connected language with its own output language and
+   * wait until all are ready. Fails with the first error, once the other
+   * languages have settled.
+   */
+  async reset(options: FanOutResetOptions): Promise<void> {
+    const sessions = this.connectedSessions();
+    if (sessions.length === 0) {
+      throw new Error("Not connected. Call connect() first.");
+    }
+
+    const results = await Promise.allSettled(
+      sessions.map(async (session) => {
+        const { langOut, voiceId } = session.target;
+        this.setReady(session, false);
+        try {
+          await session.client.reset({
+            ...options,
+            langOut,
+            voiceId: voiceId !== undefined ? voiceId : options.voiceId,
+          });
+        } catch (err) {
+          this.setError(session, err);
+          throw err;
+        }
+        this.setReady(session, true);
+      }),
+    );
+
+    const failed = results.find((result) => result.status === "rejected");
+    if (failed) throw (failed as PromiseRejectedResult).reason;
+  }
+
+  /** Wait for every language's pending audio to finish playing. */
+  async drainAudio(): Promise<void> {
+    await Promise.all(
+      [...this.sessions.values()].map((session) => session.client.drainAudio()),
+    );
+  }
+
+  /** Send audio from another track to every connected language. */
+  async replaceAudioTrack(track: MediaStreamTrack): Promise<void> {
+    await Promise.all(
+      this.connectedSessions().map(async (session) => {
+        const clone = track.clone();
+        try {
+          await session.client.replaceAudioTrack(clone);
+        } catch (err) {
+          clone.stop();
+          throw err;
+        }
+        session.track?.stop();
+        session.track = clone;
+      }),
+    );
+  }
+
+  /** Send raw Int16 PCM input to every connected language (headless). */
+  sendAudio(samples: Int16Array): void {
+    for (const session of this.connectedSessions()) {
+      session.client.sendAudio(samples);
+    }
+  }
+
+  /** Translate typed text into every connected language. */
+  sendText(text: string, options: SendTextOptions = {}): void {
+    for (const session of this.connectedSessions()) {
+      session.client.sendText(text, options);
+    }
+  }
+
+  /** Push-to-talk for every connected language. */
+  startTalking(): void {
+    for (const session of this.connectedSessions()) {
+      session.client.startTalking();
+    }
+  }
+
+  stopTalking(): void {
+    for (const session of this.connectedSessions()) {
+      session.client.stopTalking();
+    }
+  }
+
+  disconnect(): void {
+    for (const session of this.sessions.values()) {
+      session.client.disconnect();
+      this.releaseTrack(session);
+      session.audio = null;
+      this.setReady(session, false);
+    }
+  }
+
+  // --- Internal ---
+
+  private createSession(target: FanOutTarget): FanOutSession {
+    const callbacks = target.callbacks ?? {};
+    // Filled in below; the callbacks only run once the session exists.
+    let session!: FanOutSession;
+    const state = new TranslationState({
+      ...callbacks,
+      onConnectionStateChange: (connectionState) => {
+        // A session that dropped for good, rather than reconnecting, no longer
+        // sends its clone.
+        if (connectionState === "disconnected") this.releaseTrack(session);
+        callbacks.onConnectionStateChange?.(connectionState);
+        this.notifyStatus(session);
+      },
+      onError: (message, error) => {
+        callbacks.onError?.(message, error);
+        this.setError(session, error);
+      },
+    });
+    const client = new SanasTranslationClient(state, {
+      ...this.options.clientOptions,
+      ...target.clientOptions,
+    });
+    session = {
+      target,
+      state,
+      client,
+      track: null,
+      audio: null,
+      ready: false,
+      error: null,
+    };
+    return session;
+  }
+
+  private session(langOut: string): FanOutSession {
+    const session = this.sessions.get(langOut);
+    if (!session) throw new Error(`Unknown target language: ${langOut}`);
+    return session;
+  }
+
+  private connectedSessions(): FanOutSession[] {
+    return [...this.sessions.values()].filter(
+      (session) => session.client.isConnected,
+    );
+  }
+
+  private releaseTrack(session: FanOutSession): void {
+    session.track?.stop();
+    session.track = null;
+  }
+
+  private setReady(session: FanOutSession, ready: boolean): void {
+    if (session.ready === ready) return;
+    session.ready = ready;
+    this.notifyStatus(session);
+  }
+
+  private setError(session: FanOutSession, err: unknown): void {
+    session.error = err instanceof Error ? err : new Error(String(err));
+    this.notifyStatus(session);
+  }
+
+  private notifyStatus(session: FanOutSession): void {
+    this.options.onStatusChange?.(this.status(session.target.langOut));
+  }
+}
@@ -1,3 +1,5 @@
+import { Deadline, withDeadline } from "./deadline";
+import { SanasError } from "./errors";
 import {
   ConnectionState,
   IdentifiedLanguageDisplay,
@@ -11,6 +13,11 @@ import {
   Word,
 } from "./types";
 
+interface ReadyPromise {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
 interface CharacterPosition {
   utteranceIdx: number;
   wordIdx: number;
@@ -28,12 +35,14 @@ function updateUtterances(
   complete: Word[],
   partial: Word[],
   utteranceIdx: number,
+  typed?: boolean,
 ): Utterance[] {
   const utterance: Utterance = {
     complete,
     partial,
     idx: utteranceIdx,
     isFromSelf: true,
+    typed,
     createdAt: Date.now(),
     updatedAt: Date.now(),
   };
@@ -44,6 +53,7 @@ function updateUtterances(
       ...lastUtterance,
       complete: [...lastUtterance.complete, ...utterance.complete],
       partial: utterance.partial,
+      typed: lastUtterance.typed || typed,
       updatedAt: Date.now(),
     };
     return [...prev.slice(0, -1), merged];
@@ -142,10 +152,7 @@ export class TranslationState {
   };
   private _identifiedLanguages: IdentifiedLanguageDisplay[] = [];
   private callbacks: TranslationStateCallbacks;
-  private _readyPromises: Map<
-    string | null,
-    { resolve: () => void; reject: (error: Error) => void }[]
-  > = new Map();
+  private _readyPromises: Map<string | null, ReadyPromise[]> = new Map();
 
   constructor(callbacks: TranslationStateCallbacks = {}) {
     this.callbacks = callbacks;
@@ -171,17 +178,32 @@ export class TranslationState {
         }
         break;
       case "error":
-        this.callbacks.onError?.(message.message);
+        this.callbacks.onError?.(
+          message.message,
+          SanasError.fromStreamMessage(message),
+        );
         break;
     }
   }
 
-  waitForReady(resetId: string | null): Promise<void> {
-    return new Promise((resolve, reject) => {
+  waitForReady(resetId: string | null, deadline: Deadline = {}): Promise<void> {
+    let entry: ReadyPromise;
+    const ready = new Promise<void>((resolve, reject) => {
+      entry = { resolve, reject };
       const readyPromises = this._readyPromises.get(resetId) ?? [];
-      readyPromises.push({ resolve, reject });
+      readyPromises.push(entry);
       this._readyPromises.set(resetId, readyPromises);
     });
+
+    return withDeadline(
+      ready,
+      deadline,
+      "Timed out waiting for the translation server to be ready.",
+    ).catch((err) => {
+      // An abandoned wait must not linger until a ready that may never come.
+      this.removeReadyPromise(resetId, entry);
+      throw err;
+    });
   }
 
   destroy(): void {
@@ -190,6 +212,7 @@ export class TranslationState {
         reject(new Error("Disconnected"));
       }
     });
+    this._readyPromises.clear();
   }
 
   getUtteranceDisplay(index: number): UtteranceDisplay {
@@ -210,6 +233,7 @@ export class TranslationState {
         translation?.utterance?.idx ?? transcriptionUtteranceIdx,
         this.translationsSpeechBoundary,
       ),
+      typed: transcription?.typed ?? false,
     };
   }
 
@@ -231,6 +255,7 @@ export class TranslationState {
           complete,
           partial,
           utterance_idx: utteranceIdx,
+          typed,
         } = message.transcription;
 
         this.transcriptions = updateUtterances(
@@ -238,6 +263,7 @@ export class TranslationState {
           complete,
           partial,
           utteranceIdx,
+          typed,
         );
 
         this.notifyUtteranceByIdx(utteranceIdx);
@@ -325,6 +351,18 @@ export class TranslationState {
     }
   }
 
+  private removeReadyPromise(resetId: string | null, entry: ReadyPromise) {
+    const readyPromises = this._readyPromises.get(resetId);
+    if (!readyPromises) return;
+
+    const remaining = readyPromises.filter((p) => p !== entry);
+    if (remaining.length > 0) {
+      this._readyPromises.set(resetId, remaining);
+    } else {
+      this._readyPromises.delete(resetId);
+    }
+  }
+
   private resolveReady(resetId: string | null) {
     const readyPromises = this._readyPromises.get(resetId) ?? [];
     for (const { resolve } of readyPromises) {
@@ -1,14 +1,34 @@
 import {
+  createAudioContext,
+  float32ToInt16,
+  int16ToFloat32,
+  Resampler,
+} from "./audio";
+import { audioSourceReadError } from "./audioSource";
+import { authHeaders, withTokenRefresh } from "./credentials";
+import { errorFromStatus, NetworkError } from "./errors";
+import { JitterBuffer } from "./jitterBuffer";
+import {
+  findSelectedPairReport,
+  isStats,
+  QualityMetricsSampler,
+  statsReports,
+} from "./qualityMetrics";
+import { createPcmSource, TurnGate } from "./turnTaking";
+import {
+  AudioSource,
   ConnectionState,
   ConnectOptions,
   ConnectResult,
   LTMessage,
+  QualityMetrics,
   ResetOptions,
   SanasTranslationClientOptions,
+  SendTextOptions,
   Transport,
   TransportCallbacks,
+  WrappedSpeechDelimiterMessage,
 } from "./types";
-import { float32ToInt16 } from "./audio";
 
 function webrtcToConnectionState(
   // eslint-disable-next-line no-undef
@@ -31,36 +51,121 @@ let resetIdCounter = 0;
 
 const DEFAULT_INPUT_SAMPLE_RATE = 16000;
 const DEFAULT_OUTPUT_SAMPLE_RATE = 16000;
+const DEFAULT_QUALITY_METRICS_INTERVAL_MS = 2000;
+const DEFAULT_DISCONNECTED_GRACE_MS = 5000;
+
+// eslint-disable-next-line no-undef
+type PeerConfiguration = RTCConfiguration;
+// eslint-disable-next-line no-undef
+type IceServer = RTCIceServer;
+
+export type IceCandidateType = "host" | "srflx" | "prflx" | "relay";
+
+export interface SelectedCandidatePair {
+  /** Local candidate type. "relay" means media flows through a TURN server. */
+  localType: IceCandidateType;
+  /** Remote candidate type. */
+  remoteType: IceCandidateType;
+  /** Transport protocol of the local candidate ("udp" or "tcp"). */
+  protocol: string | null;
+  /** Protocol between the client and the TURN server, when relayed. */
+  relayProtocol: string | null;
+}
+
+export interface WebRTCTransportOptions {
+  /** Peer connection configuration: ICE servers, iceTransportPolicy, bundlePolicy. */
+  rtcConfiguration?: PeerConfiguration;
+  /**
+   * Fetch short-lived TURN credentials from the LT server before connecting,
+   * adding them to the configured ICE servers.
+   */
+  fetchTurnCredentials?: boolean;
+  /** Fires once connected with the ICE candidate pair in use. */
+  onSelectedCandidatePair?: (pair: SelectedCandidatePair) => void;
+  /** How often to sample connection quality for onQualityMetrics. Defaults to 2000 ms. */
+  qualityMetricsIntervalMs?: number;
+  /**
+   * How long ICE may stay "disconnected" before the transport reports the
+   * connection lost. The browser often recovers from it on its own.
+   * Defaults to 5000 ms.
+   */
+  disconnectedGraceMs?: number;
+}
 
 export class WebRTCTransport implements Transport {
+  private options: WebRTCTransportOptions;
+  private _selectedCandidatePair: SelectedCandidatePair | null = null;
+  private _qualityMetrics: QualityMetrics | null = null;
+  private qualityTimer: ReturnType<typeof setInterval> | null = null;
+  private disconnectedTimer: ReturnType<typeof setTimeout> | null = null;
   private peerConnection: RTCPeerConnection | null = null;
   private dataChannel: RTCDataChannel | null = null;
   private localStream: MediaStream | null = null;
   private audioTrack: MediaStreamTrack | null = null;
+  private audioSender: RTCRtpSender | null = null;
   private messageQueue: string[] = [];
   private _sessionId: string | null = null;
   private callbacks: TransportCallbacks | null = null;
   private connectOptions: ConnectOptions | null = null;
   private captureContext: AudioContext | null = null;
   private captureProcessor: ScriptProcessorNode | null = null;
+  /** Holds translated audio until the speaker's turn ends, in consecutive mode. */
+  private turnGate: TurnGate | null = null;
+  /** Schedules the audio each turn releases, in consecutive mode. */
+  private playback: JitterBuffer | null = null;
+  /** Capture clock time matching the start of connect(). */
+  private clockOrigin = 0;
+  /** Seconds after connect() that the first captured sample played live. */
+  private captureStart: number | null = null;
+  private connectStartedAt = 0;
+  private audioSource: AudioSource | null = null;
+  private sourceContext: AudioContext | null = null;
+  private sourceDestination: MediaStreamAudioDestinationNode | null = null;
+  private pumpToken: object | null = null;
+  // Bumped by disconnect() so an in-flight connect() stops after its awaits.
+  private connectGeneration = 0;
+
+  constructor(options: WebRTCTransportOptions = {}) {
+    this.options = options;
+  }
 
   get sessionId(): string | null {
     return this._sessionId;
   }
 
+  /** The ICE candidate pair in use, once connected. */
+  get selectedCandidatePair(): SelectedCandidatePair | null {
+    return this._selectedCandidatePair;
+  }
+
+  /** The latest connection quality sample, once connected. */
+  get qualityMetrics(): QualityMetrics | null {
+    return this._qualityMetrics;
+  }
+
   async connect(
     options: ConnectOptions,
     clientOptions: SanasTranslationClientOptions,
     callbacks: TransportCallbacks,
   ): Promise<ConnectResult> {
+    const generation = ++this.connectGeneration;
     this.callbacks = callbacks;
     this.connectOptions = options;
+    this.connectStartedAt = performance.now();
+    this.captureStart = null;
+
+    if (!options.textOnly) {
+      const track = await this.resolveInputTrack(options);
+      this.throwIfDisconnected(generation);
+      this.audioTrack = track;
+      this.localStream = new MediaStream([track]);
+    }
 
-    this.audioTrack = options.audioTrack;
-    this.localStream = new MediaStream([options.audioTrack]);
+    const configuration = await this.buildRtcConfiguration(clientOptions);
+    this.throwIfDisconnected(generation);
 
     // Create RTCPeerConnection
-    const peer = new RTCPeerConnection();
+    const peer = new RTCPeerConnection(configuration);
     this.peerConnection = peer;
 
     // Create data channel
@@ -85,7 +190,12 @@ export class WebRTCTransport implements Transport {
     dc.onmessage = (event: MessageEvent) => {
       try {
         const message = LTMessage.parse(JSON.parse(event.data));
-        callbacks.onMessage(message);
+        this.turnGate?.observe(message);
+        if (message.type === "speech_delimiter" && this.turnGate) {
+          this.holdDelimiter(this.turnGate, message);
+        } else {
+          callbacks.onMessage(message);
+        }
       } catch (e) {
         console.error("Failed to parse message from data channel:", e);
       }
@@ -95,7 +205,7 @@ export class WebRTCTransport implements Transport {
     if (this.localStream) {
       for (const track of this.localStream.getTracks()) {
         if (track.kind === "audio") {
-          peer.addTrack(track, this.localStream);
+          this.audioSender = peer.addTrack(track, this.localStream);
         }
       }
     }
@@ -113,18 +223,84 @@ export class WebRTCTransport implements Transport {
 
       peer.ontrack = (e) => {
         translatedAudio = e.streams[0];
+        const consecutive = options.mode === "consecutive";
 
-        if (callbacks.onAudioData) {
+        if (callbacks.onAudioData || consecutive) {
           const outputSR =
             options.outputSampleRate ?? DEFAULT_OUTPUT_SAMPLE_RATE;
-          const capCtx = new AudioContext({ sampleRate: outputSR });
+          const capCtx = createAudioContext(outputSR);
           this.captureContext = capCtx;
+          // Browsers may run the context at another rate than requested.
+          const captureResampler =
+            capCtx.sampleRate !== outputSR
+              ? new Resampler(capCtx.sampleRate, outputSR)
+              : null;
           const src = capCtx.createMediaStreamSource(translatedAudio);
           const proc = capCtx.createScriptProcessor(4096, 1, 1);
           this.captureProcessor = proc;
+
+          // Consecutive mode replays the captured audio once each turn ends,
+          // so the app gets that stream instead of the live one.
+          let gate: TurnGate | null = null;
+          if (consecutive) {
+            const destination = capCtx.createMediaStreamDestination();
+            translatedAudio = destination.stream;
+            // The client times speech delimiters from when it called connect().
+            this.clockOrigin =
+              capCtx.currentTime -
+              (performance.now() - this.connectStartedAt) / 1000;
+            const playback = new JitterBuffer({
+              targetLatency: 0,
+              maxLatency: Infinity,
+              catchUp: "drop",
+              play: (samples, startTime) => {
+                const source = createPcmSource(
+                  capCtx,
+                  destination,
+                  samples,
+                  capCtx.sampleRate,
+                );
+                source.start(startTime);
+                return () => source.stop();
+              },
+            });
+            this.playback = playback;
+            const playbackResampler =
+              capCtx.sampleRate !== outputSR
+                ? new Resampler(outputSR, capCtx.sampleRate)
+                : null;
+            gate = new TurnGate({
+              sampleRate: outputSR,
+              play: (samples) => {
+                callbacks.onAudioData?.(samples, outputSR);
+                const resampled = playbackResampler
+                  ? float32ToInt16(
+                      playbackResampler.process(int16ToFloat32(samples)),
+                    )
+                  : samples;
+                if (resampled.length === 0) return;
+                playback.push(capCtx.currentTime, resampled, capCtx.sampleRate);
+              },
+              remainingPlayback: () => playback.latency(capCtx.currentTime),
+              onTurnStateChange: options.onTurnStateChange,
+            });
+            this.turnGate = gate;
+          }
+
           proc.onaudioprocess = (ev) => {
-            const float32 = ev.inputBuffer.getChannelData(0);
-            callbacks.onAudioData!(float32ToInt16(float32), outputSR);
+            const input = ev.inputBuffer.getChannelData(0);
+            const float32 = captureResampler
+              ? captureResampler.process(input)
+              : input;
+            if (gate) {
+              this.captureStart ??=
+                capCtx.currentTime -
+                this.clockOrigin -
+                input.length / capCtx.sampleRate;
+              gate.push(float32ToInt16(float32));
+            } else {
+              callbacks.onAudioData!(float32ToInt16(float32), outputSR);
+            }
           };
           src.connect(proc);
           proc.connect(capCtx.destination);
@@ -134,15 +310,37 @@ export class WebRTCTransport implements Transport {
       };
 
       peer.onconnectionstatechange = () => {
-        callbacks.onConnectionStateChange(
-          webrtcToConnectionState(peer.connectionState),
-        );
+        this.clearDisconnectedTimer();
+        if (peer.connectionState === "disconnected") {
+          // "failed" follows if ICE cannot recover; don't wait that long.
+          this.disconnectedTimer = setTimeout(() => {
+            this.disconnectedTimer = null;
+            callbacks.onConnectionStateChange("disconnected");
+          }, this.options.disconnectedGraceMs ?? DEFAULT_DISCONNECTED_GRACE_MS);
+        } else {
+          callbacks.onConnectionStateChange(
+            webrtcToConnectionState(peer.connectionState),
+          );
+        }
+
+        if (peer.connectionState === "connected") {
+          void this.reportSelectedCandidatePair(peer);
+          this.startQualityMetrics(peer);
+        }
+
+        if (
+          peer.connectionState === "failed" ||
+          peer.connectionState === "closed"
+        ) {
+          this.stopQualityMetrics();
+        }
 
         if (peer.connectionState === "failed") {
-          callbacks.onError("Disconnected from server.");
+          const error = new NetworkError("Disconnected from server.");
+          callbacks.onError(error);
           if (!connectFailed) {
             connectFailed = true;
-            reject(new Error("Disconnected from server."));
+            reject(error);
           }
         }
 
@@ -179,11 +377,22 @@ export class WebRTCTransport implements Transport {
       },
     };
     this.sendMessage(message);
+    this.startAudioSource();
     return id;
   }
 
   disconnect(): void {
+    this.connectGeneration++;
     this._sessionId = null;
+    this._selectedCandidatePair = null;
+    this._qualityMetrics = null;
+    this.stopQualityMetrics();
+    this.clearDisconnectedTimer();
+    this.turnGate?.dispose();
+    this.turnGate = null;
+    this.playback = null;
+
+    this.closeAudioSource();
 
     if (this.captureProcessor) {
       this.captureProcessor.disconnect();
@@ -201,6 +410,7 @@ export class WebRTCTransport implements Transport {
 
     this.localStream = null;
     this.audioTrack = null;
+    this.audioSender = null;
     this.dataChannel = null;
     this.messageQueue = [];
     this.callbacks = null;
@@ -208,7 +418,15 @@ export class WebRTCTransport implements Transport {
   }
 
   drainAudio(): Promise<void> {
-    return Promise.resolve();
+    // Only consecutive mode schedules playback; live audio needs no draining.
+    const ctx = this.captureContext;
+    if (!this.playback || !ctx) return Promise.resolve();
+
+    const remaining = this.playback.latency(ctx.currentTime);
+    if (remaining <= 0) return Promise.resolve();
+    return new Promise((resolve) => {
+      setTimeout(resolve, remaining * 1000);
+    });
   }
 
   setAudioEnabled(enabled: boolean): void {
@@ -217,6 +435,131 @@ export class WebRTCTransport implements Transport {
     }
   }
 
+  async replaceAudioTrack(track: MediaStreamTrack): Promise<void> {
+    if (!this.audioSender) {
+      throw new Error("Not connected. Call connect() first.");
+    }
+    // replaceTrack swaps the media without renegotiating the session.
+    await this.audioSender.replaceTrack(track);
+    this.closeAudioSource();
+    this.audioTrack = track;
+  }
+
+  sendRecording(recording: "start" | "stop"): void {
+    this.sendMessage({ type: "recording", recording });
+    if (recording === "start") this.turnGate?.startTurn();
+    else this.turnGate?.endTurn();
+  }
+
+  sendText(text: string, options: SendTextOptions): void {
+    this.sendMessage({
+      type: "text",
+      text: { text, synthesize: options.synthesize ?? false },
+    });
+  }
+
+  private closeAudioSource(): void {
+    this.pumpToken = null;
+    this.audioSource = null;
+    this.sourceDestination = null;
+    if (this.sourceContext) {
+      this.sourceContext.close();
+      this.sourceContext = null;
+    }
+  }
+
+  /**
+   * Pick the track to send. Sources not backed by a track are played into a
+   * MediaStream destination once the session is configured.
+   */
+  private async resolveInputTrack(
+    options: ConnectOptions,
+  ): Promise<MediaStreamTrack> {
+    const source = options.audioSource;
+    if (source?.track) return source.track;
+
+    if (source) {
+      this.audioSource = source;
+      const ctx = createAudioContext(source.sampleRate);
+      const destination = ctx.createMediaStreamDestination();
+      this.sourceContext = ctx;
+      this.sourceDestination = destination;
+      await ctx.resume();
+      return destination.stream.getAudioTracks()[0];
+    }
+
+    if (!options.audioTrack) {
+      throw new Error("WebRTCTransport requires an audioTrack or audioSource.");
+    }
+    return options.audioTrack;
+  }
+
+  /**
+   * disconnect() already released whatever the abandoned connect() set up, so
+   * only the caller is left to tell.
+   */
+  private throwIfDisconnected(generation: number): void {
+    if (generation !== this.connectGeneration) {
+      throw new NetworkError("Disconnected", { recoverable: false });
+    }
+  }
+
+  private startAudioSource(): void {
+    const source = this.audioSource;
+    if (!source || this.pumpToken) return;
+
+    const token = {};
+    this.pumpToken = token;
+    void this.pumpAudioSource(source, token);
+  }
+
+  private async pumpAudioSource(
+    source: AudioSource,
+    token: object,
+  ): Promise<void> {
+    const ctx = this.sourceContext;
+    const destination = this.sourceDestination;
+    if (!ctx || !destination) return;
+
+    // Browsers may run the context at another rate than requested.
+    const resampler =
+      ctx.sampleRate !== source.sampleRate
+        ? new Resampler(source.sampleRate, ctx.sampleRate)
+        : null;
+    let nextTime = 0;
+    try {
+      for await (const chunk of source) {
+        if (this.pumpToken !== token) return;
+
+        const float32 = int16ToFloat32(chunk);
+        const samples = resampler ? resampler.process(float32) : float32;
+        if (samples.length === 0) continue;
+        const buffer = ctx.createBuffer(1, samples.length, ctx.sampleRate);
+        buffer.getChannelData(0).set(samples);
+        const node = ctx.createBufferSource();
+        node.buffer = buffer;
+        node.connect(destination);
+
+        const startTime = Math.max(ctx.currentTime, nextTime);
+        node.start(startTime);
+        nextTime = startTime + buffer.duration;
+      }
+    } catch (e) {
+      this.callbacks?.onError(audioSourceReadError(source, e));
+      return;
+    }
+
+    // Let the queued audio reach the server before signalling the end.
+    const remaining = nextTime - ctx.currentTime;
+    if (remaining > 0) {
+      await new Promise((resolve) => setTimeout(resolve, remaining * 1000));
+    }
+    if (this.pumpToken !== token) return;
+
+    this.sendRecording("stop");
+    this.connectOptions?.onAudioSourceEnd?.();
+  }
+
   private sendMessage(message: LTMessage): void {
     const serialized = JSON.stringify(message);
     if (this.dataChannel && this.dataChannel.readyState === "open") {
@@ -236,18 +579,6 @@ export class WebRTCTransport implements Transport {
     });
     await peer.setLocalDescription(offer);
 
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-
-    if (clientOptions.accessToken) {
-      headers["Authorization"] = `Bearer ${clientOptions.accessToken}`;
-    } else if (clientOptions.apiKey) {
-      headers["X-API-Key"] = clientOptions.apiKey;
-    } else {
-      throw new Error("Missing credentials: provide apiKey or accessToken.");
-    }
-
     const options = this.connectOptions;
     const payload = {
       ...offer,
@@ -256,13 +587,19 @@ export class WebRTCTransport implements Transport {
       input_sample_rate: options?.inputSampleRate ?? DEFAULT_INPUT_SAMPLE_RATE,
       output_sample_rate:
         options?.outputSampleRate ?? DEFAULT_OUTPUT_SAMPLE_RATE,
+      mode: options?.mode ?? "simultaneous",
     };
 
-    const response = await fetch(`${clientOptions.endpoint}/session`, {
-      method: "POST",
-      body: JSON.stringify(payload),
-      headers,
-    });
+    const response = await withTokenRefresh(
+      clientOptions,
+      (auth) =>
+        fetch(`${clientOptions.endpoint}/session`, {
+          method: "POST",
+          body: JSON.stringify(payload),
+          headers: { "Content-Type": "application/json", ...authHeaders(auth) },
+        }),
+      (response) => response.status === 401,
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -279,8 +616,11 @@ export class WebRTCTransport implements Transport {
           "Unable to connect to translation server. Please try again later.";
       }
 
-      this.callbacks?.onError(errorMsg);
-      throw new Error(errorMsg);
+      const error = errorFromStatus(response.status, errorMsg, {
+        cause: errorText,
+      });
+      this.callbacks?.onError(error);
+      throw error;
     }
 
     const answer = await response.json();
@@ -288,4 +628,166 @@ export class WebRTCTransport implements Transport {
       typeof answer.session_id === "string" ? answer.session_id : null;
     await peer.setRemoteDescription(answer);
   }
+
+  private async buildRtcConfiguration(
+    clientOptions: SanasTranslationClientOptions,
+  ): Promise<PeerConfiguration> {
+    const configuration = this.options.rtcConfiguration ?? {};
+    if (!this.options.fetchTurnCredentials) return configuration;
+
+    const turnServers = await this.fetchTurnServers(clientOptions);
+    return {
+      ...configuration,
+      iceServers: [...(configuration.iceServers ?? []), ...turnServers],
+    };
+  }
+
+  /**
+   * Short-lived TURN credentials from the LT server. Failures fall back to the
+   * configured ICE servers, since many networks connect without TURN.
+   */
+  private async fetchTurnServers(
+    clientOptions: SanasTranslationClientOptions,
+  ): Promise<IceServer[]> {
+    try {
+      const response = await withTokenRefresh(
+        clientOptions,
+        (auth) =>
+          fetch(`${clientOptions.endpoint}/v2/turn/credentials`, {
+            method: "POST",
+            headers: authHeaders(auth),
+          }),
+        (response) => response.status === 401,
+      );
+      if (!response.ok) {
+        throw new Error(`Status ${response.status}`);
+      }
+
+      const body = await response.json();
+      return (body.data.ice_servers as Array<Record<string, unknown>>).map(
+        (server) => ({
+          urls: server.urls as string | string[],
+          username: server.username as string | undefined,
+          credential: server.credential as string | undefined,
+        }),
+      );
+    } catch (e) {
+      console.warn("Failed to fetch TURN credentials:", e);
+      return [];
+    }
+  }
+
+  private async reportSelectedCandidatePair(
+    peer: RTCPeerConnection,
+  ): Promise<void> {
+    let stats: RTCStatsReport;
+    try {
+      stats = await peer.getStats();
+    } catch (e) {
+      console.warn("Failed to read ICE candidate stats:", e);
+      return;
+    }
+
+    const pair = findSelectedCandidatePair(stats);
+    if (!pair || this.peerConnection !== peer) return;
+
+    this._selectedCandidatePair = pair;
+    this.options.onSelectedCandidatePair?.(pair);
+  }
+
+  private startQualityMetrics(peer: RTCPeerConnection): void {
+    if (this.qualityTimer || !this.callbacks?.onQualityMetrics) return;
+
+    const sampler = new QualityMetricsSampler();
+    let warned = false;
+    const sample = async () => {
+      let stats: RTCStatsReport;
+      try {
+        stats = await peer.getStats();
+      } catch (e) {
+        // A peer that fails once tends to fail every poll; say so once.
+        if (!warned) {
+          warned = true;
+          console.warn("Failed to read connection quality stats:", e);
+        }
+        return;
+      }
+      if (this.peerConnection !== peer) return;
+
+      const metrics = sampler.sample(stats);
+      this._qualityMetrics = metrics;
+      this.callbacks?.onQualityMetrics?.(metrics);
+    };
+
+    void sample();
+    this.qualityTimer = setInterval(
+      () => void sample(),
+      this.options.qualityMetricsIntervalMs ??
+        DEFAULT_QUALITY_METRICS_INTERVAL_MS,
+    );
+  }
+
+  /**
+   * Deliver a speech delimiter once the turn releases the audio it marks,
+   * timed to when that audio plays rather than when it arrived live.
+   */
+  private holdDelimiter(
+    gate: TurnGate,
+    message: WrappedSpeechDelimiterMessage,
+  ): void {
+    const captureStart = this.captureStart;
+    const playback = this.playback;
+    if (captureStart === null || !playback) {
+      this.callbacks?.onMessage(message);
+      return;
+    }
+
+    gate.delimit(message.speech_delimiter.time - captureStart, (time) => {
+      this.callbacks?.onMessage({
+        type: "speech_delimiter",
+        speech_delimiter: {
+          ...message.speech_delimiter,
+          time: playback.localTime(time) - this.clockOrigin,
+        },
+      });
+    });
+  }
+
+  private stopQualityMetrics(): void {
+    if (this.qualityTimer) {
+      clearInterval(this.qualityTimer);
+      this.qualityTimer = null;
+    }
+  }
+
+  private clearDisconnectedTimer(): void {
+    if (this.disconnectedTimer) {
+      clearTimeout(this.disconnectedTimer);
+      this.disconnectedTimer = null;
+    }
+  }
+}
+
+function findSelectedCandidatePair(
+  stats: RTCStatsReport,
+): SelectedCandidatePair | null {
+  const reports = statsReports(stats);
+  const pair = findSelectedPairReport(reports);
+  if (!pair) return null;
+
+  const local = reports.get(pair.localCandidateId);
+  const remote = reports.get(pair.remoteCandidateId);
+  if (
+    !isStats(local, "local-candidate") ||
+    !isStats(remote, "remote-candidate")
+  ) {
+    return null;
+  }
+
+  return {
+    localType: local.candidateType,
+    remoteType: remote.candidateType,
+    protocol: local.protocol ?? null,
+    relayProtocol: local.relayProtocol ?? null,
+  };
 }
@@ -1,191 +1,576 @@
-import { float32ToInt16 } from "./audio";
+import { float32ToInt16, int16ToFloat32, Resampler } from "./audio";
+import { audioSourceReadError } from "./audioSource";
 import {
+  AuthMethod,
+  canRefreshCredentials,
+  resolveCredentials,
+  staticCredentials,
+} from "./credentials";
+import {
+  AudioSourceError,
+  AuthError,
+  errorFromStatus,
+  NetworkError,
+  SanasError,
+} from "./errors";
+import { JitterBuffer } from "./jitterBuffer";
+import { createPcmWorkletNode, PcmFrame } from "./pcmWorklet";
+import { createPcmSource, TurnGate } from "./turnTaking";
+import {
+  AudioSource,
   ConnectOptions,
   ConnectResult,
+  FrameMs,
+  InterpretationMode,
+  LTMessage,
   ResetOptions,
   SanasTranslationClientOptions,
+  SendTextOptions,
   Transport,
   TransportCallbacks,
+  WSConfigMessage,
   WSMessage,
+  WSOutboundMessage,
 } from "./types";
 
 const DEFAULT_INPUT_SAMPLE_RATE = 16000;
 const DEFAULT_OUTPUT_SAMPLE_RATE = 16000;
-
-const PCM_PROCESSOR_CODE = `
-class PcmProcessor extends AudioWorkletProcessor {
-  process(inputs) {
-    const input = inputs[0][0];
-    if (input) {
-      this.port.postMessage(input);
-    }
-    return true;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 5000;
+const DEFAULT_STALL_TIMEOUT_MS = 15000;
+const DEFAULT_TARGET_LATENCY_MS = 80;
+const DEFAULT_MAX_LATENCY_MS = 400;
+
+let resetIdCounter = 0;
+
+// WebSocket.OPEN and CLOSED, without relying on a global WebSocket (absent in
+// Node < 22).
+const WS_OPEN = 1;
+const WS_CLOSED = 3;
+
+// Close code the server uses for rejected credentials.
+const WS_POLICY_VIOLATION = 1008;
+
+const AUTH_FAILED_MESSAGE = "Authentication failed. Please sign in again.";
+
+// Bytes per String.fromCharCode call, well below engines' argument limits.
+const BASE64_CHUNK_SIZE = 0x8000;
+
+function base64Encode(samples: Int16Array): string {
+  const bytes = new Uint8Array(
+    samples.buffer,
+    samples.byteOffset,
+    samples.byteLength,
+  );
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    parts.push(
+      String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK_SIZE)),
+    );
   }
+  return btoa(parts.join(""));
 }
-registerProcessor('pcm-processor', PcmProcessor);
-`;
 
-function int16ToFloat32(int16: Int16Array): Float32Array {
-  const float32 = new Float32Array(int16.length);
-  for (let i = 0; i < int16.length; i++) {
-    float32[i] = int16[i] / (int16[i] < 0 ? 0x8000 : 0x7fff);
+function base64Decode(base64: string): Int16Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length & ~1);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
   }
-  return float32;
+  return new Int16Array(bytes.buffer);
 }
 
-function base64Encode(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = "";
-  for (let i = 0; i < bytes.length; i++) {
-    binary += String.fromCharCode(bytes[i]);
+/** Int16 PCM from a binary frame, copying only when misaligned. */
+function pcmFromBinary(data: ArrayBuffer | ArrayBufferView): Int16Array {
+  // isView rather than instanceof: frames may come from another realm.
+  const buffer = ArrayBuffer.isView(data) ? data.buffer : data;
+  const byteOffset = ArrayBuffer.isView(data) ? data.byteOffset : 0;
+  const length = Math.floor(data.byteLength / 2);
+  if (byteOffset % 2 === 0) {
+    return new Int16Array(buffer, byteOffset, length);
   }
-  return btoa(binary);
+  return new Int16Array(buffer.slice(byteOffset, byteOffset + length * 2));
 }
 
-function base64Decode(base64: string): ArrayBuffer {
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes.buffer;
+/** Any WebSocket implementation following the browser API (e.g. `ws`). */
+export type WebSocketConstructor = new (url: string) => WebSocket;
+
+/**
+ * How credentials reach the server: in an `auth` message sent first on the
+ * socket, or in the URL query string, where proxies and server logs may
+ * record them. "query" is for servers that predate the auth message.
+ */
+export type WebSocketAuthentication = "message" | "query";
+
+export interface WebSocketTransportOptions {
+  /**
+   * Run without Web Audio, e.g. in Node.js. Input is pushed as Int16 PCM via
+   * sendAudio() and output is only delivered through onAudioData.
+   */
+  headless?: boolean;
+  /** WebSocket implementation to use. Defaults to the global WebSocket. */
+  webSocket?: WebSocketConstructor;
+  /**
+   * Offer to exchange audio as binary PCM frames instead of base64 JSON.
+   * Used only if the server accepts in its ready message. Defaults to true.
+   */
+  binaryAudio?: boolean;
+  /**
+   * Send heartbeats and detect a connection that silently stopped delivering
+   * server messages. Requires a server that answers pings. Off by default.
+   */
+  keepalive?: boolean | WebSocketKeepaliveOptions;
+  /** How to send credentials. Defaults to "message". */
+  authentication?: WebSocketAuthentication;
+  /** Buffering of translated audio for playback. Not used when headless. */
+  jitterBuffer?: WebSocketJitterBufferOptions;
+  /**
+   * Duration of each audio message captured from the audioTrack, in ms.
+   * Longer frames mean fewer messages but more latency. Defaults to 20.
+   */
+  frameMs?: FrameMs;
+  /** Fires with each frame captured from the audioTrack, muted or not. */
+  onCaptureFrame?: (frame: WebSocketCaptureFrame) => void;
+}
+
+export interface WebSocketCaptureFrame {
+  /** Int16 PCM at the input sample rate. */
+  samples: Int16Array;
+  /**
+   * When the first sample was captured, in seconds since connect(), on the
+   * same clock as speech delimiter times.
+   */
+  timestamp: number;
+}
+
+export interface WebSocketKeepaliveOptions {
+  /** Interval between heartbeat pings, in ms. Defaults to 5000. */
+  intervalMs?: number;
+  /**
+   * Treat the connection as stalled when audio is being sent but no server
+   * message has arrived for this long, in ms. Defaults to 15000.
+   */
+  stallTimeoutMs?: number;
+}
+
+export interface WebSocketJitterBufferOptions {
+  /**
+   * Audio buffered before playback starts or resumes after running dry, in
+   * ms. Absorbs network jitter at the cost of latency. Defaults to 80.
+   */
+  targetLatencyMs?: number;
+  /**
+   * Queued audio beyond which playback catches up to `targetLatencyMs`, in
+   * ms. Not applied in consecutive mode, which holds whole turns. Defaults
+   * to 400.
+   */
+  maxLatencyMs?: number;
+  /**
+   * How to catch up: "drop" skips the stale audio, "compress" plays it 25%
+   * faster (and higher) until back at the target. Defaults to "drop".
+   */
+  catchUp?: "drop" | "compress";
+}
+
+export interface WebSocketPlaybackStats {
+  /** Translated audio queued ahead of the playback position, in ms. */
+  latencyMs: number;
+  /** Times playback ran dry mid-speech and had to rebuffer. */
+  underruns: number;
+  /** Times the queued audio exceeded `maxLatencyMs`. */
+  overruns: number;
+  /** Stale audio skipped to catch up, in ms. */
+  droppedMs: number;
+  /** Playback time saved by playing stale audio faster, in ms. */
+  compressedMs: number;
 }
 
 export class WebSocketTransport implements Transport {
+  private headless: boolean;
+  private webSocket: WebSocketConstructor | undefined;
+  private offerBinaryAudio: boolean;
+  private authentication: WebSocketAuthentication;
+  private binaryAudio = false;
+  private keepalive: Required<WebSocketKeepaliveOptions> | null;
+  private jitterBufferOptions: WebSocketJitterBufferOptions;
+  private frameMs: FrameMs | undefined;
+  private onCaptureFrame: ((frame: WebSocketCaptureFrame) => void) | undefined;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastServerMessageTime = 0;
   private ws: WebSocket | null = null;
   private audioContext: AudioContext | null = null;
   private workletNode: AudioWorkletNode | null = null;
   private localStream: MediaStream | null = null;
   private audioTrack: MediaStreamTrack | null = null;
+  private audioSource: AudioSource | null = null;
+  private onAudioSourceEnd: (() => void) | undefined;
+  private pumpToken: object | null = null;
   private sourceNode: MediaStreamAudioSourceNode | null = null;
   private destinationNode: MediaStreamAudioDestinationNode | null = null;
   private _sessionId: string | null = null;
+  private clientOptions: SanasTranslationClientOptions | null = null;
+  /** Whether a rejected token was already replaced once for this connection. */
+  private authRetried = false;
+  /** Whether a socket with a refreshed token is being opened. */
+  private reopening = false;
+  /** Last config sent, replayed if the socket is reopened with a new token. */
+  private lastConfig: WSConfigMessage | null = null;
+  private conversationId: string | null = null;
+  private userName: string | null = null;
+  /** Reset IDs sent in config messages and not yet answered by a ready. */
+  private pendingResetIds: string[] = [];
+  /** Utterance that transcriptions without an utterance_idx belong to. */
+  private utteranceIdx = 0;
+  /** Latest utterance with transcribed words, which translations trail. */
+  private transcribedUtteranceIdx = 0;
+  /** Our index for each server utterance_idx seen in delimiters and stops. */
+  private utteranceIdxMap = new Map<number, number>();
   private callbacks: TransportCallbacks | null = null;
+  private mode: InterpretationMode = "simultaneous";
+  /** Holds translated audio until the speaker's turn ends, in consecutive mode. */
+  private turnGate: TurnGate | null = null;
   private _isAudioEnabled = true;
   private inputSampleRate: number = DEFAULT_INPUT_SAMPLE_RATE;
   private outputSampleRate: number = DEFAULT_OUTPUT_SAMPLE_RATE;
 
   private nextPlaybackTime = 0;
+  private jitterBuffer: JitterBuffer | null = null;
+  private playbackResampler: Resampler | null = null;
+  /** Audio clock time matching the start of connect(). */
+  private clockOrigin = 0;
+  private connectStartedAt = 0;
+
+  constructor(options: WebSocketTransportOptions = {}) {
+    this.headless = options.headless ?? false;
+    this.webSocket = options.webSocket;
+    this.offerBinaryAudio = options.binaryAudio ?? true;
+    this.authentication = options.authentication ?? "message";
+    this.jitterBufferOptions = options.jitterBuffer ?? {};
+    this.frameMs = options.frameMs;
+    this.onCaptureFrame = options.onCaptureFrame;
+
+    const keepalive =
+      options.keepalive === true ? {} : options.keepalive || null;
+    this.keepalive = keepalive && {
+      intervalMs: keepalive.intervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS,
+      stallTimeoutMs: keepalive.stallTimeoutMs ?? DEFAULT_STALL_TIMEOUT_MS,
+    };
+  }
 
   get sessionId(): string | null {
     return this._sessionId;
   }
 
+  /** Playback buffering of translated audio, once connected with Web Audio. */
+  get playbackStats(): WebSocketPlaybackStats | null {
+    const buffer = this.jitterBuffer;
+    if (!buffer) return null;
+    return {
+      latencyMs: buffer.latency(this.currentTime()) * 1000,
+      underruns: buffer.underruns,
+      overruns: buffer.overruns,
+      droppedMs: buffer.droppedTime * 1000,
+      compressedMs: buffer.compressedTime * 1000,
+    };
+  }
+
   async connect(
     options: ConnectOptions,
     clientOptions: SanasTranslationClientOptions,
     callbacks: TransportCallbacks,
   ): Promise<ConnectResult> {
     this.callbacks = callbacks;
+    this.clientOptions = clientOptions;
+    this.connectStartedAt = performance.now();
+    this.authRetried = false;
+    this.reopening = false;
+    this.lastConfig = null;
     this.inputSampleRate = options.inputSampleRate ?? DEFAULT_INPUT_SAMPLE_RATE;
     this.outputSampleRate =
       options.outputSampleRate ?? DEFAULT_OUTPUT_SAMPLE_RATE;
-
-    this.audioTrack = options.audioTrack;
-    this.localStream = new MediaStream([options.audioTrack]);
-
-    // Set up AudioContext
-    const ctx = new AudioContext({ sampleRate: this.inputSampleRate });
-    this.audioContext = ctx;
-    await ctx.resume();
-
-    // Create destination for output audio playback
-    this.destinationNode = ctx.createMediaStreamDestination();
     this.nextPlaybackTime = 0;
+    this.binaryAudio = false;
+    this.conversationId = options.conversationId ?? null;
+    this.userName = options.userName ?? null;
+    this.pendingResetIds = [];
+    this.utteranceIdx = 0;
+    this.transcribedUtteranceIdx = 0;
+    this.utteranceIdxMap.clear();
+    this.mode = options.mode ?? "simultaneous";
+    this.turnGate?.dispose();
+    this.turnGate =
+      this.mode === "consecutive"
+        ? new TurnGate({
+            sampleRate: this.outputSampleRate,
+            play: (samples) => this.playAudioChunk(samples),
+            remainingPlayback: () => this.nextPlaybackTime - this.currentTime(),
+            onTurnStateChange: options.onTurnStateChange,
+          })
+        : null;
+
+    if (
+      options.audioSource &&
+      options.audioSource.sampleRate !== this.inputSampleRate
+    ) {
+      throw new AudioSourceError(
+        `AudioSource sample rate ${options.audioSource.sampleRate} does not match inputSampleRate ${this.inputSampleRate}.`,
+      );
+    }
+    this.audioSource = options.audioSource ?? null;
+    this.onAudioSourceEnd = options.onAudioSourceEnd;
+
+    // Only a token provider needs awaiting; otherwise the socket opens at once.
+    const auth =
+      staticCredentials(clientOptions) ??
+      (await resolveCredentials(clientOptions));
+    if (!this.headless) {
+      await this.setUpAudioGraph(options);
+    }
 
-    // Set up AudioWorklet for mic capture
-    const blob = new Blob([PCM_PROCESSOR_CODE], {
-      type: "application/javascript",
+    return new Promise<ConnectResult>((resolve, reject) => {
+      this.openSocket(
+        auth,
+        () => {
+          callbacks.onConnectionStateChange("connected");
+          resolve({ audio: this.destinationNode?.stream ?? null });
+        },
+        reject,
+      );
     });
-    const workletUrl = URL.createObjectURL(blob);
-    await ctx.audioWorklet.addModule(workletUrl);
-    URL.revokeObjectURL(workletUrl);
+  }
+
+  private openSocket(
+    auth: AuthMethod,
+    onOpen: () => void,
+    onError: (error: SanasError) => void,
+  ): void {
+    const callbacks = this.callbacks!;
+    const WebSocketImpl = this.webSocket ?? WebSocket;
+    const ws = new WebSocketImpl(this.buildWsUrl(this.clientOptions!, auth));
+    ws.binaryType = "arraybuffer";
+    this.ws = ws;
+    // The server only closes for bad credentials before it has said anything.
+    let authenticated = false;
+
+    // Handlers of a replaced or abandoned socket must not touch the current one.
+    ws.onopen = () => {
+      if (this.ws !== ws) return;
+      if (this.authentication === "message") {
+        this.send(
+          auth.type === "accessToken"
+            ? { type: "auth", token: auth.token }
+            : { type: "auth", api_key: auth.apiKey },
+        );
+      }
+      this.startHeartbeat();
+      onOpen();
+    };
 
-    const workletNode = new AudioWorkletNode(ctx, "pcm-processor");
-    this.workletNode = workletNode;
+    ws.onerror = (event) => {
+      if (this.ws !== ws) return;
+      const error = new NetworkError(
+        "Unable to connect to translation server. Please try again later.",
+        { cause: event },
+      );
+      callbacks.onError(error);
+      onError(error);
+    };
 
-    workletNode.port.onmessage = (event: MessageEvent) => {
-      if (!this._isAudioEnabled || !this.ws) return;
-      if (this.ws.readyState !== WebSocket.OPEN) return;
+    ws.onclose = (event) => {
+      if (this.ws !== ws) return;
+      this.stopHeartbeat();
+      if (event.code === WS_POLICY_VIOLATION) {
+        if (
+          !authenticated &&
+          !this.authRetried &&
+          canRefreshCredentials(this.clientOptions!)
+        ) {
+          this.authRetried = true;
+          this.reopening = true;
+          void this.reopenWithFreshToken(callbacks);
+          return;
+        }
+        callbacks.onError(
+          new AuthError(AUTH_FAILED_MESSAGE, { status: event.code }),
+        );
+      }
+      callbacks.onConnectionStateChange("disconnected");
+    };
 
-      const float32: Float32Array = event.data;
-      const int16 = float32ToInt16(float32);
-      const base64 = base64Encode(int16.buffer as ArrayBuffer);
-      this.ws.send(JSON.stringify({ type: "audio", data: base64 }));
+    ws.onmessage = (event: MessageEvent) => {
+      if (this.ws !== ws) return;
+      authenticated = true;
+      this.lastServerMessageTime = performance.now();
+      if (typeof event.data !== "string") {
+        this.receiveAudio(pcmFromBinary(event.data));
+        return;
+      }
+      try {
+        const message = WSMessage.parse(JSON.parse(event.data));
+        this.handleServerMessage(message);
+      } catch (e) {
+        console.error("Failed to parse WebSocket message:", e);
+      }
     };
+  }
 
-    // Connect mic → worklet
-    if (this.localStream) {
-      this.sourceNode = ctx.createMediaStreamSource(this.localStream);
-      this.sourceNode.connect(workletNode);
-      workletNode.connect(ctx.destination);
+  /**
+   * The server rejected the token: ask the provider for a new one and open a
+   * new socket, replaying the last config. The app sees no disconnect unless
+   * this fails too.
+   */
+  private async reopenWithFreshToken(
+    callbacks: TransportCallbacks,
+  ): Promise<void> {
+    let auth: AuthMethod;
+    try {
+      auth = await resolveCredentials(this.clientOptions!, true);
+    } catch (e) {
+      if (this.callbacks !== callbacks) return;
+      this.reopening = false;
+      callbacks.onError(
+        e instanceof SanasError
+          ? e
+          : new AuthError(AUTH_FAILED_MESSAGE, { cause: e }),
+      );
+      callbacks.onConnectionStateChange("disconnected");
+      return;
     }
+    if (this.callbacks !== callbacks) return;
+
+    this.openSocket(
+      auth,
+      () => {
+        this.reopening = false;
+        if (this.lastConfig) this.send(this.lastConfig);
+      },
+      () => {
+        this.reopening = false;
+      },
+    );
+  }
 
-    // Open WebSocket
-    const wsUrl = this.buildWsUrl(clientOptions);
-    const ws = new WebSocket(wsUrl);
-    this.ws = ws;
+  private async setUpAudioGraph(options: ConnectOptions): Promise<void> {
+    if (!options.audioTrack && !options.audioSource && !options.textOnly) {
+      throw new Error(
+        "An audioTrack or audioSource is required unless the transport is headless or textOnly.",
+      );
+    }
 
-    return new Promise<ConnectResult>((resolve, reject) => {
-      ws.onopen = () => {
-        callbacks.onConnectionStateChange("connected");
-        resolve({ audio: this.destinationNode!.stream });
-      };
+    // Run at the device's rate: Firefox cannot connect a track to a context at
+    // another rate, and the worklet converts capture to the input rate anyway.
+    const ctx = new AudioContext();
+    this.audioContext = ctx;
+    if (ctx.sampleRate !== this.outputSampleRate) {
+      this.playbackResampler = new Resampler(
+        this.outputSampleRate,
+        ctx.sampleRate,
+      );
+    }
+    await ctx.resume();
+    // The client times speech delimiters from when it called connect().
+    this.clockOrigin =
+      ctx.currentTime - (performance.now() - this.connectStartedAt) / 1000;
 
-      ws.onerror = () => {
-        callbacks.onError(
-          "Unable to connect to translation server. Please try again later.",
-        );
-        reject(
-          new Error(
-            "Unable to connect to translation server. Please try again later.",
-          ),
+    // Create destination for output audio playback
+    const destination = ctx.createMediaStreamDestination();
+    this.destinationNode = destination;
+
+    const jitter = this.jitterBufferOptions;
+    const targetLatencyMs = jitter.targetLatencyMs ?? DEFAULT_TARGET_LATENCY_MS;
+    this.jitterBuffer = new JitterBuffer({
+      targetLatency: targetLatencyMs / 1000,
+      maxLatency:
+        this.mode === "consecutive"
+          ? Infinity
+          : Math.max(
+              jitter.maxLatencyMs ?? DEFAULT_MAX_LATENCY_MS,
+              targetLatencyMs,
+            ) / 1000,
+      catchUp: jitter.catchUp ?? "drop",
+      play: (samples, startTime, playbackRate) => {
+        const source = createPcmSource(
+          ctx,
+          destination,
+          samples,
+          ctx.sampleRate,
+          playbackRate,
         );
-      };
+        source.start(startTime);
+        return () => source.stop();
+      },
+    });
 
-      ws.onclose = (event) => {
-        if (event.code === 1008) {
-          callbacks.onError("Authentication failed. Please sign in again.");
-        }
-        callbacks.onConnectionStateChange("disconnected");
-      };
+    // An audioSource is pumped after configure() instead of capturing a track.
+    if (options.audioSource || !options.audioTrack) return;
 
-      ws.onmessage = (event: MessageEvent) => {
-        try {
-          const message = WSMessage.parse(JSON.parse(event.data));
-          this.handleServerMessage(message);
-        } catch (e) {
-          console.error("Failed to parse WebSocket message:", e);
-        }
+    await this.attachInputTrack(ctx, options.audioTrack);
+  }
+
+  /** Capture `track` through the PCM worklet, replacing any previous track. */
+  private async attachInputTrack(
+    ctx: AudioContext,
+    track: MediaStreamTrack,
+  ): Promise<void> {
+    // Set up AudioWorklet for mic capture
+    if (!this.workletNode) {
+      const workletNode = await createPcmWorkletNode(ctx, {
+        sampleRate: this.inputSampleRate,
+        frameMs: this.frameMs,
+      });
+      this.workletNode = workletNode;
+
+      workletNode.port.onmessage = (event: MessageEvent<PcmFrame>) => {
+        const { samples, time } = event.data;
+        this.onCaptureFrame?.({ samples, timestamp: time - this.clockOrigin });
+        this.sendAudio(samples);
       };
-    });
+      workletNode.connect(ctx.destination);
+    }
+
+    // Connect mic → worklet
+    this.sourceNode?.disconnect();
+    this.audioTrack = track;
+    this.localStream = new MediaStream([track]);
+    this.sourceNode = ctx.createMediaStreamSource(this.localStream);
+    this.sourceNode.connect(this.workletNode);
   }
 
-  configure(options: ResetOptions): null {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return null;
+  configure(options: ResetOptions): string | null {
+    const isOpen = this.ws?.readyState === WS_OPEN;
+    if (!isOpen && !this.reopening) return null;
 
-    const config = {
+    const id = `reset-${++resetIdCounter}`;
+    this.pendingResetIds.push(id);
+    this.lastConfig = {
       type: "config",
+      id,
       lang_in: options.langIn,
       lang_out: options.langOut,
       input_sample_rate: this.inputSampleRate,
       output_sample_rate: this.outputSampleRate,
+      voice_id: options.voiceId ?? null,
       glossary: options.glossary ?? null,
+      clear_history: options.clearHistory ?? false,
       can_lang_swap: options.canLangSwap ?? false,
+      detect_languages: options.detectLanguages ?? false,
+      conversation_id: this.conversationId,
+      name: this.userName,
+      binary_audio: this.offerBinaryAudio,
+      mode: this.mode,
     };
-
-    this.ws.send(JSON.stringify(config));
-    return null;
+    // While reopening, the config is sent once the new socket is open.
+    if (isOpen) this.send(this.lastConfig);
+    this.startAudioSource();
+    return id;
   }
 
   disconnect(): void {
-    if (this.ws) {
-      if (this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify({ type: "stop" }));
-        this.ws.close();
-      }
-      this.ws = null;
-    }
+    this.pumpToken = null;
+    this.audioSource = null;
+    this.stopHeartbeat();
+
+    if (this.ws?.readyState === WS_OPEN) this.send({ type: "stop" });
+    this.closeSocket();
 
     if (this.workletNode) {
       this.workletNode.port.onmessage = null;
@@ -208,15 +593,24 @@ export class WebSocketTransport implements Transport {
     }
 
     this._sessionId = null;
+    this.pendingResetIds = [];
+    this.lastConfig = null;
+    this.reopening = false;
+    this.turnGate?.dispose();
+    this.turnGate = null;
     this.callbacks = null;
     this.nextPlaybackTime = 0;
+    this.jitterBuffer = null;
+    this.playbackResampler = null;
+    this.binaryAudio = false;
   }
 
   drainAudio(): Promise<void> {
     const ctx = this.audioContext;
-    if (!ctx || ctx.state === "closed") return Promise.resolve();
+    if (ctx?.state === "closed") return Promise.resolve();
+    if (!ctx && !this.headless) return Promise.resolve();
 
-    const remaining = this.nextPlaybackTime - ctx.currentTime;
+    const remaining = this.nextPlaybackTime - this.currentTime();
     if (remaining <= 0) return Promise.resolve();
 
     return new Promise((resolve) => {
@@ -231,18 +625,168 @@ export class WebSocketTransport implements Transport {
     }
   }
 
-  private buildWsUrl(clientOptions: SanasTranslationClientOptions): string {
+  async replaceAudioTrack(track: MediaStreamTrack): Promise<void> {
+    if (!this.audioContext) {
+      throw new Error(
+        this.headless
+          ? "Headless transports take audio through sendAudio()."
+          : "Not connected. Call connect() first.",
+      );
+    }
+    // A track takes over from an audioSource being sent.
+    this.pumpToken = null;
+    this.audioSource = null;
+    await this.attachInputTrack(this.audioContext, track);
+  }
+
+  sendAudio(samples: Int16Array): void {
+    if (!this._isAudioEnabled || !this.ws) return;
+    if (this.ws.readyState !== WS_OPEN) return;
+    if (this.detectStall()) return;
+
+    if (this.binaryAudio) {
+      this.ws.send(samples);
+    } else {
+      this.send({ type: "audio", data: base64Encode(samples) });
+    }
+  }
+
+  sendRecording(recording: "start" | "stop"): void {
+    if (this.ws?.readyState === WS_OPEN) {
+      this.send({ type: "recording", recording });
+    }
+    if (recording === "start") this.turnGate?.startTurn();
+    else this.turnGate?.endTurn();
+  }
+
+  sendText(text: string, options: SendTextOptions): void {
+    // Unlike audio, a dropped chat message would go unnoticed.
+    if (this.ws?.readyState !== WS_OPEN) {
+      throw new NetworkError("Not connected to the translation server.");
+    }
+    this.send({
+      type: "text",
+      text,
+      synthesize: options.synthesize ?? false,
+    });
+  }
+
+  private startHeartbeat(): void {
+    this.lastServerMessageTime = performance.now();
+    if (!this.keepalive) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.ws?.readyState === WS_OPEN) {
+        this.send({ type: "ping" });
+      }
+    }, this.keepalive.intervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * A proxy can drop a socket without closing it, so audio would be sent into
+   * the void while the app still shows "connected". Checked on each send.
+   */
+  private detectStall(): boolean {
+    if (!this.keepalive || !this.ws) return false;
+    const silentMs = performance.now() - this.lastServerMessageTime;
+    if (silentMs < this.keepalive.stallTimeoutMs) return false;
+
+    const callbacks = this.callbacks;
+    this.closeSocket();
+    this.stopHeartbeat();
+
+    callbacks?.onError(
+      new NetworkError(
+        "Lost connection to translation server: no response received.",
+      ),
+    );
+    callbacks?.onConnectionStateChange("disconnected");
+    return true;
+  }
+
+  /**
+   * Close the socket, even one still connecting, and ignore its events: a
+   * socket that opens after connect() was abandoned would otherwise
+   * authenticate and start a heartbeat on this transport.
+   */
+  private closeSocket(): void {
+    const ws = this.ws;
+    if (!ws) return;
+    this.ws = null;
+    ws.onopen = null;
+    ws.onclose = null;
+    ws.onerror = null;
+    ws.onmessage = null;
+    if (ws.readyState !== WS_CLOSED) ws.close();
+  }
+
+  private startAudioSource(): void {
+    const source = this.audioSource;
+    if (!source || this.pumpToken) return;
+
+    const token = {};
+    this.pumpToken = token;
+    void this.pumpAudioSource(source, token);
+  }
+
+  private async pumpAudioSource(
+    source: AudioSource,
+    token: object,
+  ): Promise<void> {
+    try {
+      for await (const chunk of source) {
+        if (this.pumpToken !== token) return;
+        this.sendAudio(chunk);
+      }
+    } catch (e) {
+      this.callbacks?.onError(audioSourceReadError(source, e));
+      return;
+    }
+
+    if (this.pumpToken !== token) return;
+
+    // End of input: ask the server to finish the session.
+    if (this.ws?.readyState === WS_OPEN) {
+      this.send({ type: "stop" });
+    }
+    this.onAudioSourceEnd?.();
+  }
+
+  private send(message: WSOutboundMessage): void {
+    this.ws?.send(JSON.stringify(message));
+  }
+
+  /** Playback clock in seconds: the AudioContext's, or wall time if headless. */
+  private currentTime(): number {
+    return this.audioContext?.currentTime ?? performance.now() / 1000;
+  }
+
+  private buildWsUrl(
+    clientOptions: SanasTranslationClientOptions,
+    auth: AuthMethod,
+  ): string {
     const httpUrl = clientOptions.endpoint.replace(/\/$/, "");
     const wsBase = httpUrl
       .replace(/^https:\/\//, "wss://")
       .replace(/^http:\/\//, "ws://");
 
+    // The endpoint serves both interpretation modes; its name predates them,
+    // and the config message carries the mode.
     const url = new URL(`${wsBase}/v2/consecutive`);
 
-    if (clientOptions.accessToken) {
-      url.searchParams.set("token", clientOptions.accessToken);
-    } else if (clientOptions.apiKey) {
-      url.searchParams.set("api_key", clientOptions.apiKey);
+    if (this.authentication === "query") {
+      if (auth.type === "accessToken") {
+        url.searchParams.set("token", auth.token);
+      } else {
+        url.searchParams.set("api_key", auth.apiKey);
+      }
     }
 
     return url.toString();
@@ -252,23 +796,35 @@ export class WebSocketTransport implements Transport {
     switch (message.type) {
       case "ready":
         this._sessionId = message.session_id ?? null;
-        this.nextPlaybackTime = this.audioContext?.currentTime ?? 0;
+        this.binaryAudio =
+          this.offerBinaryAudio && message.binary_audio === true;
+        this.nextPlaybackTime = this.currentTime();
         this.callbacks?.onMessage({
           type: "ready",
-          ready: { id: null },
+          ready: { id: this.takeResetId(message.id) },
         });
         break;
 
-      case "transcription":
-        this.callbacks?.onMessage({
+      case "transcription": {
+        const utteranceIdx = message.utterance_idx ?? this.utteranceIdx;
+        if (message.utterance_idx !== undefined) {
+          this.utteranceIdxMap.set(message.utterance_idx, utteranceIdx);
+        }
+        this.utteranceIdx = utteranceIdx;
+        if (message.complete.length > 0 || message.partial.length > 0) {
+          this.transcribedUtteranceIdx = utteranceIdx;
+        }
+        this.emit({
           type: "transcription",
           transcription: {
             complete: message.complete,
             partial: message.partial,
-            utterance_idx: 0,
+            utterance_idx: utteranceIdx,
+            typed: message.typed,
           },
         });
         break;
+      }
 
       case "translation":
         this.callbacks?.onMessage({
@@ -276,72 +832,164 @@ export class WebSocketTransport implements Transport {
           translation: {
             complete: message.complete,
             partial: message.partial,
-            utterance_idx: 0,
+            utterance_idx:
+              message.utterance_idx ?? this.transcribedUtteranceIdx,
           },
         });
         break;
 
-      case "speech_delimiter":
-        this.callbacks?.onMessage({
-          type: "speech_delimiter",
-          speech_delimiter: {
-            time: message.time,
-            transcription: message.transcription,
-            translation: message.translation,
-          },
-        });
+      case "speech_delimiter": {
+        const transcription = {
+          ...message.transcription,
+          utterance_idx: this.mapUtteranceIdx(
+            message.transcription.utterance_idx,
+            this.utteranceIdx,
+          ),
+        };
+        const translation = {
+          ...message.translation,
+          utterance_idx: this.mapUtteranceIdx(
+            message.translation.utterance_idx,
+            this.transcribedUtteranceIdx,
+          ),
+        };
+        const deliver = (time: number) =>
+          this.callbacks?.onMessage({
+            type: "speech_delimiter",
+            speech_delimiter: {
+              time: this.playbackTime(time),
+              transcription,
+              translation,
+            },
+          });
+        // Consecutive mode holds delimiters with the audio they mark.
+        if (this.turnGate) this.turnGate.delimit(message.time, deliver);
+        else deliver(message.time);
         break;
+      }
 
       case "languages":
-        this.callbacks?.onMessage({
-          type: "speech_languages",
-          speech_languages: {
-            lang_in: message.lang_in,
-            lang_out: message.lang_out,
-          },
-        });
+        if (message.languages) {
+          this.callbacks?.onMessage({
+            type: "languages",
+            languages: { languages: message.languages },
+          });
+        }
+        if (message.lang_in && message.lang_out) {
+          this.callbacks?.onMessage({
+            type: "speech_languages",
+            speech_languages: {
+              lang_in: message.lang_in,
+              lang_out: message.lang_out,
+            },
+          });
+        }
         break;
 
       case "audio":
-        this.playAudioChunk(message.data);
+        this.receiveAudio(base64Decode(message.data));
         break;
 
-      case "speech_stop":
-        this.callbacks?.onMessage({
+      case "speech_stop": {
+        const stoppedIdx = this.mapUtteranceIdx(
+          message.utterance_idx,
+          this.utteranceIdx,
+        );
+        // Speech after the stop starts the next utterance.
+        this.utteranceIdx = Math.max(
+          this.utteranceIdx,
+          stoppedIdx + 1,
+          message.utterance_idx + 1,
+        );
+        this.emit({
           type: "speech_stop",
           speech_stop: {},
         });
         break;
+      }
+
+      case "pong":
+        break;
 
       case "error":
-        this.callbacks?.onError(message.message);
+        this.callbacks?.onError(errorFromStatus(message.code, message.message));
         break;
     }
   }
 
-  private playAudioChunk(base64Data: string): void {
-    if (!this.audioContext || !this.destinationNode) return;
+  /**
+   * Our index for the server's utterance `serverIdx`. An index first seen
+   * belongs to the utterance in progress, `currentIdx`, so delimiters land on
+   * the words they refer to even when the server counts differently.
+   */
+  private mapUtteranceIdx(serverIdx: number, currentIdx: number): number {
+    let idx = this.utteranceIdxMap.get(serverIdx);
+    if (idx === undefined) {
+      idx = currentIdx;
+      this.utteranceIdxMap.set(serverIdx, idx);
+    }
+    return idx;
+  }
 
-    const ctx = this.audioContext;
-    const arrayBuffer = base64Decode(base64Data);
-    const int16 = new Int16Array(arrayBuffer);
-    this.callbacks?.onAudioData?.(int16, this.outputSampleRate);
-    const float32 = int16ToFloat32(int16);
+  /** Deliver an LT message, letting consecutive mode follow the turns. */
+  private emit(message: LTMessage): void {
+    this.turnGate?.observe(message);
+    this.callbacks?.onMessage(message);
+  }
 
-    const audioBuffer = ctx.createBuffer(
-      1,
-      float32.length,
-      this.outputSampleRate,
-    );
-    audioBuffer.getChannelData(0).set(float32);
+  private receiveAudio(samples: Int16Array): void {
+    if (this.turnGate) this.turnGate.push(samples);
+    else this.playAudioChunk(samples);
+  }
+
+  /**
+   * The reset ID a ready answers. Servers that do not echo the config's ID
+   * answer configs in order, so the oldest pending one is used.
+   */
+  private takeResetId(id: string | null | undefined): string | null {
+    if (!id) return this.pendingResetIds.shift() ?? null;
+
+    const index = this.pendingResetIds.indexOf(id);
+    // Configs sent before it have been answered or superseded.
+    if (index >= 0) this.pendingResetIds.splice(0, index + 1);
+    return id;
+  }
+
+  private playAudioChunk(int16: Int16Array): void {
+    if (this.headless) {
+      this.callbacks?.onAudioData?.(int16, this.outputSampleRate);
+      // No playback, but keep time so drainAudio() waits as long as a
+      // listener playing the audio in real time would.
+      const startTime = Math.max(this.currentTime(), this.nextPlaybackTime);
+      this.nextPlaybackTime = startTime + int16.length / this.outputSampleRate;
+      return;
+    }
 
-    const source = ctx.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.destinationNode);
+    if (!this.audioContext || !this.destinationNode || !this.jitterBuffer) {
+      return;
+    }
+
+    this.callbacks?.onAudioData?.(int16, this.outputSampleRate);
+    // Browsers may run the context at another rate than requested.
+    const resampler = this.playbackResampler;
+    const samples = resampler
+      ? float32ToInt16(resampler.process(int16ToFloat32(int16)))
+      : int16;
+    if (samples.length === 0) return;
+    this.jitterBuffer.push(
+      this.currentTime(),
+      samples,
+      this.audioContext.sampleRate,
+    );
+    this.nextPlaybackTime = this.jitterBuffer.playbackEndTime;
+  }
 
-    const now = ctx.currentTime;
-    const startTime = Math.max(now, this.nextPlaybackTime);
-    source.start(startTime);
-    this.nextPlaybackTime = startTime + audioBuffer.duration;
+  /**
+   * Where a time on the server's audio timeline (e.g. a speech delimiter's)
+   * plays, in seconds since connect(), after buffering and catching up.
+   */
+  private playbackTime(serverTime: number): number {
+    if (!this.jitterBuffer) return serverTime;
+    return this.jitterBuffer.localTime(serverTime) - this.clockOrigin;
   }
 }
@@ -0,0 +1,293 @@
+import { getMicrophoneTrack } from "../audio";
+import {
+  AudioDeviceManager,
+  DevicePreferenceStorage,
+} from "../AudioDeviceManager";
+import { MicrophoneError } from "../errors";
+import { MockTransport } from "../MockTransport";
+import { SanasTranslationClient } from "../SanasTranslationClient";
+import { TranslationState } from "../TranslationState";
+
+// --- Mock browser APIs ---
+
+class MockTrack {
+  kind = "audio";
+  readyState = "live";
+  onended: (() => void) | null = null;
+  stop = jest.fn(() => {
+    this.readyState = "ended";
+  });
+
+  constructor(readonly deviceId: string) {}
+
+  getSettings() {
+    return { deviceId: this.deviceId };
+  }
+
+  /** The device went away. */
+  end() {
+    this.readyState = "ended";
+    this.onended?.();
+  }
+}
+
+let devices: { deviceId: string; kind: string; label: string }[];
+let tracks: MockTrack[];
+let deviceChangeListener: (() => void) | null;
+
+const mediaDevices = {
+  enumerateDevices: jest.fn(async () => devices),
+  getUserMedia: jest.fn(
+    async (constraints: { audio: { deviceId?: { exact: string } } }) => {
+      const inputs = devices.filter((device) => device.kind === "audioinput");
+      const requested = constraints.audio.deviceId?.exact;
+      if (
+        inputs.length === 0 ||
+        (requested && !inputs.some((device) => device.deviceId === requested))
+      ) {
+        throw Object.assign(new Error("Not found"), { name: "NotFoundError" });
+      }
+      const track = new MockTrack(requested ?? inputs[0].deviceId);
+      tracks.push(track);
+      return { getAudioTracks: () => [track] };
+    },
+  ),
+  addEventListener: jest.fn((_type: string, listener: () => void) => {
+    deviceChangeListener = listener;
+  }),
+  removeEventListener: jest.fn(),
+};
+
+(globalThis as unknown as Record<string, unknown>).navigator = {
+  mediaDevices,
+};
+
+// --- Helpers ---
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const input = (deviceId: string) => ({
+  deviceId,
+  kind: "audioinput",
+  label: deviceId,
+});
+
+function memoryStorage(
+  initial: Record<string, string> = {},
+): DevicePreferenceStorage & { items: Record<string, string> } {
+  const items = { ...initial };
+  return {
+    items,
+    getItem: (key) => items[key] ?? null,
+    setItem: (key, value) => {
+      items[key] = value;
+    },
+  };
+}
+
+function connectedClient() {
+  const state = new TranslationState({});
+  const client = new SanasTranslationClient(state, {
+    apiKey: "test-key",
+    endpoint: "https://lt.test.com",
+    headless: true,
+  });
+  const transport = new MockTransport();
+  return { client, transport };
+}
+
+describe("AudioDeviceManager", () => {
+  beforeEach(() => {
+    devices = [
+      input("default"),
+      input("usb"),
+      { deviceId: "speakers", kind: "audiooutput", label: "Speakers" },
+    ];
+    tracks = [];
+    deviceChangeListener = null;
+    jest.clearAllMocks();
+  });
+
+  it("lists inputs and outputs", async () => {
+    const manager = new AudioDeviceManager({ storage: null });
+
+    const { inputs, outputs } = await manager.listDevices();
+
+    expect(inputs.map((device) => device.deviceId)).toEqual(["default", "usb"]);
+    expect(outputs.map((device) => device.deviceId)).toEqual(["speakers"]);
+  });
+
+  it("opens the remembered device", async () => {
+    const storage = memoryStorage({
+      "sanas.audioDevices": JSON.stringify({ input: "usb" }),
+    });
+    const manager = new AudioDeviceManager({ storage });
+
+    const track = await manager.openMicrophone();
+
+    expect(track).toBe(tracks[0]);
+    expect(manager.activeInputId).toBe("usb");
+    expect(mediaDevices.addEventListener).toHaveBeenCalledWith(
+      "devicechange",
+      expect.any(Function),
+    );
+    manager.dispose();
+  });
+
+  it("opens the default device when the remembered one is gone", async () => {
+    const storage = memoryStorage({
+      "sanas.audioDevices": JSON.stringify({ input: "headset" }),
+    });
+    const manager = new AudioDeviceManager({ storage });
+
+    await manager.openMicrophone();
+
+    expect(manager.activeInputId).toBe("default");
+    expect(manager.preferredInputId).toBe("headset");
+    manager.dispose();
+  });
+
+  it("swaps a connected client's track when an input is selected", async () => {
+    const { client, transport } = connectedClient();
+    const storage = memoryStorage();
+    const onTrackChange = jest.fn();
+    const manager = new AudioDeviceManager({ client, storage, onTrackChange });
+    const first = await manager.openMicrophone();
+    await client.connect({ transport, audioTrack: first });
+
+    await manager.selectInput("usb");
+
+    expect(manager.activeInputId).toBe("usb");
+    expect(transport.replacedAudioTracks).toEqual([manager.track]);
+    expect(transport.connectCalls).toHaveLength(1);
+    expect(first.stop).toHaveBeenCalled();
+    expect(onTrackChange).toHaveBeenLastCalledWith(manager.track);
+    expect(JSON.parse(storage.items["sanas.audioDevices"])).toEqual({
+      input: "usb",
+    });
+    client.disconnect();
+    manager.dispose();
+  });
+
+  it("keeps the current track when the selected input is missing", async () => {
+    const manager = new AudioDeviceManager({ storage: null });
+    const first = await manager.openMicrophone();
+
+    await expect(manager.selectInput("headset")).rejects.toMatchObject({
+      code: "microphone",
+      reason: "not-found",
+    });
+
+    expect(manager.track).toBe(first);
+    expect(first.stop).not.toHaveBeenCalled();
+    manager.dispose();
+  });
+
+  it("falls back to the default device when the active one is unplugged", async () => {
+    const { client, transport } = connectedClient();
+    const manager = new AudioDeviceManager({
+      client,
+      storage: memoryStorage({
+        "sanas.audioDevices": JSON.stringify({ input: "usb" }),
+      }),
+    });
+    const usb = await manager.openMicrophone();
+    await client.connect({ transport, audioTrack: usb });
+
+    devices = devices.filter((device) => device.deviceId !== "usb");
+    deviceChangeListener?.();
+    await flush();
+
+    expect(manager.activeInputId).toBe("default");
+    expect(transport.replacedAudioTracks).toEqual([manager.track]);
+    expect(client.isConnected).toBe(true);
+
+    // Plugging the preferred device back in returns to it.
+    devices.push(input("usb"));
+    deviceChangeListener?.();
+    await flush();
+
+    expect(manager.activeInputId).toBe("usb");
+    expect(transport.replacedAudioTracks).toHaveLength(2);
+    client.disconnect();
+    manager.dispose();
+  });
+
+  it("reopens a microphone whose track ends", async () => {
+    const manager = new AudioDeviceManager({ storage: null });
+    const first = (await manager.openMicrophone()) as unknown as MockTrack;
+
+    first.end();
+    await flush();
+
+    expect(manager.track).not.toBe(first);
+    expect(manager.activeInputId).toBe("default");
+    manager.dispose();
+  });
+
+  it("reports a failed fallback", async () => {
+    const onError = jest.fn();
+    const manager = new AudioDeviceManager({ storage: null, onError });
+    await manager.openMicrophone();
+
+    devices = [];
+    deviceChangeListener?.();
+    await flush();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(MicrophoneError));
+    expect(onError.mock.calls[0][0].reason).toBe("not-found");
+    manager.dispose();
+  });
+
+  it("routes output to the selected device", async () => {
+    const storage = memoryStorage();
+    const manager = new AudioDeviceManager({ storage });
+    const element = { setSinkId: jest.fn(async () => {}) };
+
+    await manager.selectOutput(
+      "speakers",
+      element as unknown as HTMLMediaElement,
+    );
+
+    expect(element.setSinkId).toHaveBeenCalledWith("speakers");
+    expect(manager.preferredOutputId).toBe("speakers");
+    expect(new AudioDeviceManager({ storage }).preferredOutputId).toBe(
+      "speakers",
+    );
+  });
+
+  it("stops the track and device listener on dispose", async () => {
+    const manager = new AudioDeviceManager({ storage: null });
+    const track = await manager.openMicrophone();
+
+    manager.dispose();
+
+    expect(track.stop).toHaveBeenCalled();
+    expect(manager.track).toBeNull();
+    expect(mediaDevices.removeEventListener).toHaveBeenCalledWith(
+      "devicechange",
+      deviceChangeListener,
+    );
+  });
+});
+
+describe("getMicrophoneTrack errors", () => {
+  it.each([
+    ["NotAllowedError", "permission-denied"],
+    ["SecurityError", "permission-denied"],
+    ["NotFoundError", "not-found"],
+    ["OverconstrainedError", "not-found"],
+    ["NotReadableError", "in-use"],
+    ["TypeError", "unknown"],
+  ])("classifies %s as %s", async (name, reason) => {
+    const cause = Object.assign(new Error(name), { name });
+    mediaDevices.getUserMedia.mockRejectedValueOnce(cause);
+
+    const error = await getMicrophoneTrack().catch((e) => e);
+
+    expect(error).toBeInstanceOf(MicrophoneError);
+    expect(error.reason).toBe(reason);
+    expect(error.recoverable).toBe(false);
+    expect(error.cause).toBe(cause);
+  });
+});
@@ -0,0 +1,220 @@
+import { NetworkError, TimeoutError } from "../errors";
+import {
+  FallbackTransport,
+  TransportCandidate,
+  webSocketTransportCandidate,
+} from "../FallbackTransport";
+import { MockTransport } from "../MockTransport";
+import { SanasTranslationClient } from "../SanasTranslationClient";
+import { TranslationState } from "../TranslationState";
+import { TranslationStateCallbacks, Transport } from "../types";
+import { WebSocketConstructor } from "../WebSocketTransport";
+
+function makeCallbacks(): Required<TranslationStateCallbacks> {
+  return {
+    onUtterance: jest.fn(),
+    onLanguages: jest.fn(),
+    onReady: jest.fn(),
+    onSpeechLanguages: jest.fn(),
+    onSpeechStop: jest.fn(),
+    onError: jest.fn(),
+    onConnectionStateChange: jest.fn(),
+  };
+}
+
+function createClient() {
+  const callbacks = makeCallbacks();
+  const state = new TranslationState(callbacks);
+  const client = new SanasTranslationClient(state, {
+    apiKey: "test-key",
+    endpoint: "https://lt.test.com",
+    headless: true,
+  });
+  return { client, state, callbacks };
+}
+
+function candidate(
+  name: string,
+  transport: Transport,
+  extra: Partial<TransportCandidate> = {},
+): TransportCandidate {
+  return { name, create: () => transport, ...extra };
+}
+
+function hangingTransport(): MockTransport {
+  const transport = new MockTransport();
+  jest.spyOn(transport, "connect").mockReturnValue(new Promise(() => {}));
+  jest.spyOn(transport, "disconnect");
+  return transport;
+}
+
+describe("FallbackTransport", () => {
+  it("uses the first transport that connects", async () => {
+    const { client, callbacks } = createClient();
+    const failing = new MockTransport({ failConnect: "UDP blocked" });
+    const working = new MockTransport();
+    const onTransportSelected = jest.fn();
+    const onAttemptFailed = jest.fn();
+    const transport = new FallbackTransport({
+      transports: [candidate("webrtc", failing), candidate("ws", working)],
+      onTransportSelected,
+      onAttemptFailed,
+    });
+
+    await client.connect({ transport });
+    await client.reset({ langIn: "en-US", langOut: "es-ES" });
+
+    expect(transport.selectedTransport).toBe("ws");
+    expect(transport.activeTransport).toBe(working);
+    expect(transport.sessionId).toBe("mock-session");
+    expect(onTransportSelected).toHaveBeenCalledWith("ws", working);
+    expect(onAttemptFailed).toHaveBeenCalledWith("webrtc", expect.any(Error));
+    expect(failing.disconnectCount).toBe(1);
+    expect(working.lastConfiguration).toEqual({
+      langIn: "en-US",
+      langOut: "es-ES",
+    });
+
+    // The failed attempt is not surfaced to the app.
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    expect((callbacks.onConnectionStateChange as jest.Mock).mock.calls).toEqual(
+      [["connecting"], ["connected"]],
+    );
+
+    client.disconnect();
+    expect(working.disconnectCount).toBe(1);
+    expect(transport.selectedTransport).toBeNull();
+  });
+
+  it("skips transports the environment does not support", async () => {
+    const { client } = createClient();
+    const unsupported = new MockTransport();
+    const working = new MockTransport();
+    const onAttemptFailed = jest.fn();
+    const transport = new FallbackTransport({
+      transports: [
+        candidate("webrtc", unsupported, { isSupported: () => false }),
+        candidate("ws", working),
+      ],
+      onAttemptFailed,
+    });
+
+    await client.connect({ transport });
+
+    expect(unsupported.connectCalls).toHaveLength(0);
+    expect(onAttemptFailed).toHaveBeenCalledWith(
+      "webrtc",
+      new NetworkError("webrtc is not supported in this environment."),
+    );
+    expect(transport.selectedTransport).toBe("ws");
+    client.disconnect();
+  });
+
+  it("moves on when an attempt times out", async () => {
+    const { client } = createClient();
+    const hanging = hangingTransport();
+    const working = new MockTransport();
+    const onAttemptFailed = jest.fn();
+    const transport = new FallbackTransport({
+      transports: [
+        candidate("webrtc", hanging, { timeoutMs: 10 }),
+        candidate("ws", working),
+      ],
+      onAttemptFailed,
+    });
+
+    await client.connect({ transport });
+
+    expect(onAttemptFailed).toHaveBeenCalledWith(
+      "webrtc",
+      expect.any(TimeoutError),
+    );
+    expect(hanging.disconnect).toHaveBeenCalled();
+    expect(transport.selectedTransport).toBe("ws");
+    client.disconnect();
+  });
+
+  it("reports the last error when every transport fails", async () => {
+    const { client, callbacks } = createClient();
+    const transport = new FallbackTransport({
+      transports: [
+        candidate("webrtc", new MockTransport({ failConnect: "First" })),
+        candidate("ws", new MockTransport({ failConnect: "Second" })),
+      ],
+    });
+
+    await expect(client.connect({ transport })).rejects.toThrow("Second");
+
+    expect(callbacks.onError).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).toHaveBeenCalledWith(
+      "Second",
+      expect.any(NetworkError),
+    );
+    expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+      "disconnected",
+    );
+  });
+
+  it("fails when no transport is supported", async () => {
+    const transport = new FallbackTransport({
+      transports: [
+        candidate("webrtc", new MockTransport(), { isSupported: () => false }),
+      ],
+    });
+    const { client } = createClient();
+
+    const connecting = client.connect({ transport });
+    await expect(connecting).rejects.toBeInstanceOf(NetworkError);
+    await expect(connecting).rejects.toThrow(
+      "No supported transport is available in this environment.",
+    );
+  });
+
+  it("stops trying when the signal aborts", async () => {
+    const { client } = createClient();
+    const hanging = hangingTransport();
+    const next = new MockTransport();
+    const abort = new AbortController();
+    const transport = new FallbackTransport({
+      transports: [candidate("webrtc", hanging), candidate("ws", next)],
+    });
+
+    const connecting = client.connect({ transport, signal: abort.signal });
+    abort.abort(new Error("Cancelled"));
+
+    await expect(connecting).rejects.toThrow("Cancelled");
+    expect(hanging.disconnect).toHaveBeenCalled();
+    expect(next.connectCalls).toHaveLength(0);
+  });
+
+  it("ignores events from abandoned attempts", async () => {
+    const { client, callbacks } = createClient();
+    const failing = new MockTransport();
+    jest.spyOn(failing, "connect").mockImplementation(async (_o, _c, cbs) => {
+      setTimeout(() => cbs.onError(new NetworkError("Late error")), 0);
+      throw new Error("Failed");
+    });
+    const transport = new FallbackTransport({
+      transports: [
+        candidate("webrtc", failing),
+        candidate("ws", new MockTransport()),
+      ],
+    });
+
+    await client.connect({ transport });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    client.disconnect();
+  });
+
+  it("detects WebSocket support from the environment", () => {
+    expect(webSocketTransportCandidate().isSupported!()).toBe(false);
+    expect(
+      webSocketTransportCandidate({
+        headless: true,
+        webSocket: class {} as unknown as WebSocketConstructor,
+      }).isSupported!(),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,206 @@
+import { NetworkError, ServerError } from "../errors";
+import { MockTransport } from "../MockTransport";
+import { SanasTranslationClient } from "../SanasTranslationClient";
+import { TranslationState } from "../TranslationState";
+import { TranslationStateCallbacks, Word } from "../types";
+
+function makeWord(text: string): Word {
+  return { word: text, start: 0, end: 1 };
+}
+
+function makeCallbacks(): Required<TranslationStateCallbacks> {
+  return {
+    onUtterance: jest.fn(),
+    onLanguages: jest.fn(),
+    onReady: jest.fn(),
+    onSpeechLanguages: jest.fn(),
+    onSpeechStop: jest.fn(),
+    onError: jest.fn(),
+    onConnectionStateChange: jest.fn(),
+  };
+}
+
+function createClient() {
+  const callbacks = makeCallbacks();
+  const state = new TranslationState(callbacks);
+  const client = new SanasTranslationClient(state, {
+    apiKey: "test-key",
+    endpoint: "https://lt.test.com",
+    headless: true,
+  });
+  return { client, state, callbacks };
+}
+
+describe("MockTransport", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("answers configure() with a matching ready", async () => {
+    const { client, callbacks } = createClient();
+    const transport = new MockTransport();
+    await client.connect({ transport });
+
+    const resetPromise = client.reset({ langIn: "en-US", langOut: "fr-FR" });
+    await jest.advanceTimersByTimeAsync(0);
+    await resetPromise;
+
+    expect(callbacks.onReady).toHaveBeenCalledWith("mock-reset-1");
+    expect(transport.lastConfiguration).toEqual({
+      langIn: "en-US",
+      langOut: "fr-FR",
+    });
+    expect(transport.sessionId).toBe("mock-session");
+
+    client.disconnect();
+  });
+
+  it("plays the script on its timeline after the first configure()", async () => {
+    const { client, state, callbacks } = createClient();
+    const transport = new MockTransport({
+      script: [
+        {
+          delayMs: 100,
+          message: {
+            type: "transcription",
+            transcription: {
+              complete: [makeWord("hello")],
+              partial: [],
+              utterance_idx: 0,
+            },
+          },
+        },
+        {
+          delayMs: 100,
+          message: {
+            type: "translation",
+            translation: {
+              complete: [makeWord("bonjour")],
+              partial: [],
+              utterance_idx: 0,
+            },
+          },
+        },
+        { delayMs: 50, message: { type: "speech_stop", speech_stop: {} } },
+      ],
+    });
+    await client.connect({ transport });
+    await jest.advanceTimersByTimeAsync(500);
+    expect(callbacks.onUtterance).not.toHaveBeenCalled();
+
+    void client.reset({ langIn: "en-US", langOut: "fr-FR" });
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(state.getState().utterances).toHaveLength(1);
+    expect(state.getState().utterances[0].translation.complete).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(state.getState().utterances[0].translation.complete).toEqual([
+      makeWord("bonjour"),
+    ]);
+    expect(callbacks.onSpeechStop).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(50);
+    expect(callbacks.onSpeechStop).toHaveBeenCalledTimes(1);
+
+    client.disconnect();
+  });
+
+  it("starts the script only once the delayed ready is sent", async () => {
+    const { client, callbacks } = createClient();
+    const transport = new MockTransport({
+      readyDelayMs: 300,
+      script: [
+        { delayMs: 100, message: { type: "speech_stop", speech_stop: {} } },
+      ],
+    });
+    await client.connect({ transport });
+
+    void client.reset({ langIn: "en-US", langOut: "fr-FR" });
+    await jest.advanceTimersByTimeAsync(200);
+    expect(callbacks.onSpeechStop).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(callbacks.onReady).toHaveBeenCalledTimes(1);
+    expect(callbacks.onSpeechStop).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(callbacks.onSpeechStop).toHaveBeenCalledTimes(1);
+
+    client.disconnect();
+  });
+
+  it("simulates scripted errors and disconnects", async () => {
+    const { client, callbacks } = createClient();
+    const transport = new MockTransport({
+      script: [{ error: "boom" }, { delayMs: 10, disconnect: true }],
+    });
+    await client.connect({ transport });
+
+    void client.reset({ langIn: "en-US", langOut: "fr-FR" });
+    await jest.advanceTimersByTimeAsync(20);
+
+    expect(callbacks.onError).toHaveBeenCalledWith(
+      "boom",
+      expect.any(ServerError),
+    );
+    expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+      "disconnected",
+    );
+    expect(transport.isConnected).toBe(false);
+
+    client.disconnect();
+  });
+
+  it("fails connect() when configured to", async () => {
+    const { client, callbacks } = createClient();
+    const transport = new MockTransport({ failConnect: "Unreachable" });
+
+    await expect(client.connect({ transport })).rejects.toThrow("Unreachable");
+    expect(callbacks.onError).toHaveBeenCalledWith(
+      "Unreachable",
+      expect.any(NetworkError),
+    );
+    expect(transport.connectCalls).toHaveLength(1);
+  });
+
+  it("lets the client reconnect after a simulated disconnect", async () => {
+    const { client } = createClient();
+    const transport = new MockTransport();
+    await client.connect({
+      transport,
+      reconnect: { initialDelayMs: 10, jitter: 0 },
+    });
+    void client.reset({ langIn: "en-US", langOut: "fr-FR" });
+    await jest.advanceTimersByTimeAsync(0);
+
+    transport.simulateDisconnect();
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(transport.connectCalls).toHaveLength(2);
+    expect(transport.configurations).toHaveLength(2);
+    expect(transport.isConnected).toBe(true);
+
+    client.disconnect();
+  });
+
+  it("records audio input and mute state", async () => {
+    const { client } = createClient();
+    const transport = new MockTransport();
+    await client.connect({ transport });
+
+    const samples = new Int16Array([1, 2]);
+    client.sendAudio(samples);
+    transport.setAudioEnabled(false);
+
+    expect(transport.sentAudio).toEqual([samples]);
+    expect(transport.audioEnabled).toBe(false);
+
+    client.disconnect();
+    expect(transport.disconnectCount).toBe(1);
+  });
+});
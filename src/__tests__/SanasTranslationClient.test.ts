@@ -1,3 +1,4 @@
+import { AuthError, NetworkError, ServerError, TimeoutError } from "../errors";
 import { SanasTranslationClient } from "../SanasTranslationClient";
 import { TranslationState } from "../TranslationState";
 import {
@@ -6,8 +7,8 @@ import {
   ResetOptions,
   SanasTranslationClientOptions,
   StreamMessage,
-  Transport,
   TranslationStateCallbacks,
+  Transport,
   TransportCallbacks,
 } from "../types";
 
@@ -124,6 +125,10 @@ class MockTransport implements Transport {
   disconnect = jest.fn();
   drainAudio = jest.fn(() => Promise.resolve());
   setAudioEnabled = jest.fn();
+  replaceAudioTrack = jest.fn((_track: MediaStreamTrack) => Promise.resolve());
+  sendAudio = jest.fn();
+  sendRecording = jest.fn();
+  sendText = jest.fn();
 }
 
 // --- Helpers ---
@@ -152,6 +157,7 @@ function createClient(
     endpoint: string;
     callbacks: TranslationStateCallbacks;
     onMessage: (message: StreamMessage) => void;
+    headless: boolean;
   }> = {},
 ) {
   const callbacks = overrides.callbacks ?? makeCallbacks();
@@ -161,6 +167,7 @@ function createClient(
     accessToken: overrides.accessToken,
     endpoint: overrides.endpoint ?? "https://lt.test.com",
     onMessage: overrides.onMessage,
+    headless: overrides.headless,
   });
   return { client, callbacks, translationState };
 }
@@ -292,6 +299,113 @@ describe("SanasTranslationClient", () => {
     });
   });
 
+  describe("connect timeout and abort", () => {
+    function hangingTransport() {
+      const transport = new MockTransport();
+      transport.connect = jest
+        .fn()
+        .mockReturnValue(new Promise(() => {})) as MockTransport["connect"];
+      return transport;
+    }
+
+    it("rejects with a TimeoutError and tears down the transport", async () => {
+      const { client, callbacks } = createClient();
+      const transport = hangingTransport();
+
+      const connecting = client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        timeoutMs: 10,
+      });
+      const ctx = (client as unknown as Record<string, unknown>)[
+        "audioContext"
+      ] as MockAudioContext;
+
+      await expect(connecting).rejects.toBeInstanceOf(TimeoutError);
+      await expect(connecting).rejects.toThrow(
+        "Timed out connecting to the translation server.",
+      );
+      expect(transport.disconnect).toHaveBeenCalled();
+      expect(ctx.close).toHaveBeenCalled();
+      expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+        "disconnected",
+      );
+
+      // The client can connect again.
+      await connectClient(client);
+      client.disconnect();
+    });
+
+    it("times out while the AudioContext waits to resume", async () => {
+      const { client } = createClient();
+      const transport = new MockTransport();
+      const globals = globalThis as unknown as Record<string, unknown>;
+      globals.AudioContext = class extends MockAudioContext {
+        resume = jest.fn(() => new Promise<void>(() => {}));
+      };
+
+      const connecting = client.connect({ transport, timeoutMs: 10 });
+      globals.AudioContext = MockAudioContext;
+      const ctx = (client as unknown as Record<string, unknown>)[
+        "audioContext"
+      ] as MockAudioContext;
+
+      await expect(connecting).rejects.toBeInstanceOf(TimeoutError);
+      expect(ctx.close).toHaveBeenCalled();
+      expect(transport.connect).not.toHaveBeenCalled();
+    });
+
+    it("rejects with the abort reason when the signal aborts", async () => {
+      const { client } = createClient();
+      const transport = hangingTransport();
+      const abort = new AbortController();
+
+      const connecting = client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        signal: abort.signal,
+      });
+      await flush();
+      abort.abort(new Error("User cancelled"));
+
+      await expect(connecting).rejects.toThrow("User cancelled");
+      expect(transport.disconnect).toHaveBeenCalled();
+    });
+
+    it("ignores events from an abandoned transport", async () => {
+      const { client, callbacks } = createClient();
+      const transport = new MockTransport();
+      let lateCallbacks: TransportCallbacks | null = null;
+      transport.connect = jest
+        .fn()
+        .mockImplementation(
+          (_options, _clientOptions, callbacks: TransportCallbacks) => {
+            lateCallbacks = callbacks;
+            return new Promise(() => {});
+          },
+        ) as MockTransport["connect"];
+
+      await expect(
+        client.connect({ transport, timeoutMs: 10 }),
+      ).rejects.toBeInstanceOf(TimeoutError);
+      (callbacks.onConnectionStateChange as jest.Mock).mockClear();
+
+      lateCallbacks!.onConnectionStateChange("connected");
+
+      expect(callbacks.onConnectionStateChange).not.toHaveBeenCalled();
+    });
+
+    it("does not start when the signal is already aborted", async () => {
+      const { client } = createClient();
+      const transport = new MockTransport();
+
+      await expect(
+        client.connect({ transport, signal: AbortSignal.abort() }),
+      ).rejects.toThrow();
+      expect(transport.connect).not.toHaveBeenCalled();
+    });
+  });
+
   describe("disconnect", () => {
     it("disconnects transport and notifies disconnected state", async () => {
       const { client, callbacks } = createClient();
@@ -335,6 +449,187 @@ describe("SanasTranslationClient", () => {
     });
   });
 
+  describe("replaceAudioTrack", () => {
+    const newTrack = new MockMediaStreamTrack() as unknown as MediaStreamTrack;
+
+    it("swaps the track on the live transport", async () => {
+      const { client, translationState } = createClient();
+      const { transport } = await connectClient(client);
+      transport.callbacks!.onMessage({
+        type: "transcription",
+        transcription: {
+          complete: [{ word: "hello", start: 0, end: 0.5 }],
+          partial: [],
+          utterance_idx: 0,
+        },
+      });
+      transport.setAudioEnabled.mockClear();
+
+      await client.replaceAudioTrack(newTrack);
+
+      expect(transport.replaceAudioTrack).toHaveBeenCalledWith(newTrack);
+      expect(transport.setAudioEnabled).toHaveBeenCalledWith(true);
+      expect(transport.connect).toHaveBeenCalledTimes(1);
+      expect(transport.disconnect).not.toHaveBeenCalled();
+      expect(translationState.getState().utterances).toHaveLength(1);
+
+      client.disconnect();
+    });
+
+    it("reconnects with the new track", async () => {
+      const { client } = createClient();
+      const transport = new MockTransport();
+      await client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        reconnect: { initialDelayMs: 0, jitter: 0 },
+      });
+
+      await client.replaceAudioTrack(newTrack);
+      transport.callbacks!.onConnectionStateChange("disconnected");
+      await flush();
+
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+      expect(transport.connect.mock.calls[1][0].audioTrack).toBe(newTrack);
+
+      client.disconnect();
+    });
+
+    it("throws when the transport cannot replace tracks", async () => {
+      const { client } = createClient();
+      const transport = new MockTransport();
+      (transport as Partial<MockTransport>).replaceAudioTrack = undefined;
+      await client.connect({ transport, audioTrack: mockAudioTrack });
+
+      await expect(client.replaceAudioTrack(newTrack)).rejects.toThrow(
+        "Transport does not support replacing the audio track.",
+      );
+
+      client.disconnect();
+    });
+
+    it("throws when not connected", async () => {
+      const { client } = createClient();
+
+      await expect(client.replaceAudioTrack(newTrack)).rejects.toThrow(
+        "Not connected. Call connect() first.",
+      );
+    });
+  });
+
+  describe("push-to-talk", () => {
+    it("starts muted and sends recording start/stop", async () => {
+      const { client } = createClient();
+      const transport = new MockTransport();
+      await client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        pushToTalk: true,
+      });
+
+      expect(transport.setAudioEnabled).toHaveBeenLastCalledWith(false);
+
+      client.startTalking();
+      expect(client.isTalking).toBe(true);
+      expect(transport.setAudioEnabled).toHaveBeenLastCalledWith(true);
+      expect(transport.sendRecording).toHaveBeenLastCalledWith("start");
+
+      client.stopTalking();
+      expect(client.isTalking).toBe(false);
+      expect(transport.setAudioEnabled).toHaveBeenLastCalledWith(false);
+      expect(transport.sendRecording).toHaveBeenLastCalledWith("stop");
+
+      // Repeated calls do not resend.
+      client.stopTalking();
+      expect(transport.sendRecording).toHaveBeenCalledTimes(2);
+
+      client.disconnect();
+    });
+
+    it("resumes talking after a reconnect", async () => {
+      const { client } = createClient();
+      const transport = new MockTransport();
+      await client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        pushToTalk: true,
+        reconnect: { initialDelayMs: 0, jitter: 0 },
+      });
+      const resetPromise = client.reset({ langIn: "en-US", langOut: "es-ES" });
+      transport.callbacks!.onMessage({
+        type: "ready",
+        ready: { id: "reset-id-1" },
+      });
+      await resetPromise;
+      client.startTalking();
+      transport.sendRecording.mockClear();
+
+      transport.callbacks!.onConnectionStateChange("disconnected");
+      await flush();
+
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+      expect(transport.setAudioEnabled).toHaveBeenLastCalledWith(true);
+      expect(transport.sendRecording).toHaveBeenCalledWith("start");
+      expect(transport.configure.mock.invocationCallOrder[1]).toBeLessThan(
+        transport.sendRecording.mock.invocationCallOrder[0],
+      );
+
+      client.disconnect();
+    });
+
+    it("throws when not connected", () => {
+      const { client } = createClient();
+
+      expect(() => client.startTalking()).toThrow(
+        "Not connected. Call connect() first.",
+      );
+    });
+  });
+
+  describe("sendText", () => {
+    it("sends typed text and shows it as a typed utterance", async () => {
+      const { client, translationState } = createClient();
+      const transport = new MockTransport();
+      await client.connect({ transport, textOnly: true });
+
+      client.sendText("Good morning", { synthesize: true });
+      transport.callbacks!.onMessage({
+        type: "transcription",
+        transcription: {
+          complete: [{ word: "Good morning", start: 0, end: 1 }],
+          partial: [],
+          utterance_idx: 0,
+          typed: true,
+        },
+      });
+
+      expect(transport.sendText).toHaveBeenCalledWith("Good morning", {
+        synthesize: true,
+      });
+      expect(translationState.getState().utterances[0].typed).toBe(true);
+
+      client.disconnect();
+    });
+
+    it("ignores blank text", async () => {
+      const { client } = createClient();
+      const { transport } = await connectClient(client);
+
+      client.sendText("  ");
+
+      expect(transport.sendText).not.toHaveBeenCalled();
+      client.disconnect();
+    });
+
+    it("throws when not connected", () => {
+      const { client } = createClient();
+
+      expect(() => client.sendText("Hello")).toThrow(
+        "Not connected. Call connect() first.",
+      );
+    });
+  });
+
   describe("reset", () => {
     it("throws when not connected", async () => {
       const { client } = createClient();
@@ -371,6 +666,51 @@ describe("SanasTranslationClient", () => {
 
       client.disconnect();
     });
+
+    it("rejects with a TimeoutError if ready never arrives", async () => {
+      const { client, translationState } = createClient();
+      await connectClient(client);
+
+      await expect(
+        client.reset({ langIn: "en-US", langOut: "es-ES", timeoutMs: 10 }),
+      ).rejects.toBeInstanceOf(TimeoutError);
+
+      const readyPromises = (
+        translationState as unknown as Record<string, Map<unknown, unknown>>
+      )["_readyPromises"];
+      expect(readyPromises.size).toBe(0);
+
+      client.disconnect();
+    });
+
+    it("stops waiting when the signal aborts", async () => {
+      const { client, translationState } = createClient();
+      const { transport } = await connectClient(client);
+      const abort = new AbortController();
+
+      const resetPromise = client.reset({
+        langIn: "en-US",
+        langOut: "es-ES",
+        signal: abort.signal,
+      });
+      const other = client.reset({ langIn: "en-US", langOut: "fr-FR" });
+      abort.abort(new Error("Cancelled"));
+
+      await expect(resetPromise).rejects.toThrow("Cancelled");
+
+      // Other waits for the same reset ID are unaffected.
+      transport.callbacks!.onMessage({
+        type: "ready",
+        ready: { id: "reset-id-1" },
+      });
+      await expect(other).resolves.toBeUndefined();
+      const readyPromises = (
+        translationState as unknown as Record<string, Map<unknown, unknown>>
+      )["_readyPromises"];
+      expect(readyPromises.size).toBe(0);
+
+      client.disconnect();
+    });
   });
 
   describe("message routing", () => {
@@ -453,9 +793,33 @@ describe("SanasTranslationClient", () => {
       const { client, callbacks } = createClient();
       const { transport } = await connectClient(client);
 
-      transport.callbacks!.onError("something went wrong");
+      const error = new ServerError("something went wrong");
+      transport.callbacks!.onError(error);
 
-      expect(callbacks.onError).toHaveBeenCalledWith("something went wrong");
+      expect(callbacks.onError).toHaveBeenCalledWith(
+        "something went wrong",
+        expect.any(ServerError),
+      );
+
+      client.disconnect();
+    });
+
+    it("passes the typed error through to callbacks", async () => {
+      const { client, callbacks } = createClient();
+      const { transport } = await connectClient(client);
+
+      transport.callbacks!.onError(
+        new AuthError("Session expired", { status: 401 }),
+      );
+
+      const error = (callbacks.onError as jest.Mock).mock.calls[0][1];
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error).toMatchObject({
+        code: "auth",
+        recoverable: false,
+        status: 401,
+        message: "Session expired",
+      });
 
       client.disconnect();
     });
@@ -572,11 +936,13 @@ describe("SanasTranslationClient", () => {
       const { client } = createClient({ onMessage });
       const { transport } = await connectClient(client);
 
-      transport.callbacks!.onError("test error");
+      transport.callbacks!.onError(new NetworkError("test error"));
 
       expect(onMessage).toHaveBeenCalledWith({
         type: "error",
         message: "test error",
+        code: "network",
+        recoverable: true,
       });
 
       client.disconnect();
@@ -732,6 +1098,192 @@ describe("SanasTranslationClient", () => {
     });
   });
 
+  describe("reconnection", () => {
+    const reconnect = { initialDelayMs: 0, jitter: 0 };
+
+    it("passes disconnected through when reconnect is disabled", async () => {
+      const { client, callbacks } = createClient();
+      const { transport } = await connectClient(client);
+
+      transport.callbacks!.onConnectionStateChange("disconnected");
+      await flush();
+
+      expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+        "disconnected",
+      );
+      expect(transport.connect).toHaveBeenCalledTimes(1);
+
+      client.disconnect();
+    });
+
+    it("reconnects and re-sends the last reset options", async () => {
+      const onReconnecting = jest.fn();
+      const onReconnected = jest.fn();
+      const { client, callbacks } = createClient();
+      const transport = new MockTransport();
+      await client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        reconnect: { ...reconnect, onReconnecting, onReconnected },
+      });
+
+      const resetPromise = client.reset({ langIn: "en-US", langOut: "es-ES" });
+      transport.callbacks!.onMessage({
+        type: "ready",
+        ready: { id: "reset-id-1" },
+      });
+      await resetPromise;
+      transport.configure.mockClear();
+
+      transport.callbacks!.onConnectionStateChange("disconnected");
+      expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+        "reconnecting",
+      );
+
+      await flush();
+
+      expect(transport.disconnect).toHaveBeenCalled();
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+      expect(transport.configure).toHaveBeenCalledWith({
+        langIn: "en-US",
+        langOut: "es-ES",
+      });
+      expect(onReconnecting).toHaveBeenCalledWith(1, 0);
+      expect(onReconnected).toHaveBeenCalledWith(
+        expect.objectContaining({ audio: expect.anything() }),
+        1,
+      );
+      expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+        "connected",
+      );
+
+      client.disconnect();
+    });
+
+    it("keeps utterances and offsets indices of the new session", async () => {
+      const { client, translationState } = createClient();
+      const transport = new MockTransport();
+      await client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        reconnect,
+      });
+
+      transport.callbacks!.onMessage({
+        type: "transcription",
+        transcription: {
+          complete: [{ word: "hello", start: 0, end: 1 }],
+          partial: [],
+          utterance_idx: 0,
+        },
+      });
+
+      transport.callbacks!.onConnectionStateChange("disconnected");
+      await flush();
+
+      transport.callbacks!.onMessage({
+        type: "transcription",
+        transcription: {
+          complete: [{ word: "again", start: 0, end: 1 }],
+          partial: [],
+          utterance_idx: 0,
+        },
+      });
+
+      const { utterances } = translationState.getState();
+      expect(utterances).toHaveLength(2);
+      expect(utterances[0].transcription.complete[0].word).toBe("hello");
+      expect(utterances[1].transcription.complete[0].word).toBe("again");
+
+      client.disconnect();
+    });
+
+    it("ignores events from the replaced connection", async () => {
+      const { client, callbacks } = createClient();
+      const transport = new MockTransport();
+      await client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        reconnect,
+      });
+      const staleCallbacks = transport.callbacks!;
+
+      staleCallbacks.onConnectionStateChange("disconnected");
+      await flush();
+      (callbacks.onError as jest.Mock).mockClear();
+
+      staleCallbacks.onError(new NetworkError("late error"));
+      staleCallbacks.onConnectionStateChange("disconnected");
+
+      expect(callbacks.onError).not.toHaveBeenCalled();
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+
+      client.disconnect();
+    });
+
+    it("gives up after maxAttempts and disconnects", async () => {
+      const onReconnectFailed = jest.fn();
+      const { client, callbacks } = createClient();
+      const transport = new MockTransport();
+      await client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        reconnect: { ...reconnect, maxAttempts: 2, onReconnectFailed },
+      });
+
+      transport.connect.mockRejectedValue(new Error("Connection failed"));
+      transport.callbacks!.onConnectionStateChange("disconnected");
+      await flush();
+
+      expect(transport.connect).toHaveBeenCalledTimes(3);
+      expect(onReconnectFailed).toHaveBeenCalledWith(2);
+      expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+        "disconnected",
+      );
+
+      await expect(
+        client.reset({ langIn: "en-US", langOut: "es-ES" }),
+      ).rejects.toThrow("Not connected. Call connect() first.");
+    });
+
+    it("gives up at once on an unrecoverable error", async () => {
+      const onReconnectFailed = jest.fn();
+      const { client, callbacks } = createClient();
+      const transport = new MockTransport();
+      await client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        reconnect: { ...reconnect, maxAttempts: 5, onReconnectFailed },
+      });
+
+      transport.connect.mockRejectedValue(new AuthError("Token expired"));
+      transport.callbacks!.onConnectionStateChange("disconnected");
+      await flush();
+
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+      expect(onReconnectFailed).toHaveBeenCalledWith(1);
+      expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+        "disconnected",
+      );
+    });
+
+    it("stops reconnecting on disconnect()", async () => {
+      const { client } = createClient();
+      const transport = new MockTransport();
+      await client.connect({
+        transport,
+        audioTrack: mockAudioTrack,
+        reconnect: { initialDelayMs: 1000, jitter: 0 },
+      });
+
+      transport.callbacks!.onConnectionStateChange("disconnected");
+      client.disconnect();
+      await flush();
+
+      expect(transport.connect).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("speech delimiter scheduling", () => {
     it("schedules a speech delimiter via AudioBufferSourceNode", async () => {
       const { client, callbacks } = createClient();
@@ -861,4 +1413,80 @@ describe("SanasTranslationClient", () => {
       client.disconnect();
     });
   });
+
+  describe("headless mode", () => {
+    it("connects without creating an AudioContext", async () => {
+      const { client } = createClient({ headless: true });
+      const transport = new MockTransport();
+
+      await client.connect({ transport });
+
+      expect(
+        (client as unknown as Record<string, unknown>)["audioContext"],
+      ).toBeNull();
+
+      client.disconnect();
+    });
+
+    it("forwards raw PCM input to the transport", async () => {
+      const { client } = createClient({ headless: true });
+      const transport = new MockTransport();
+      await client.connect({ transport });
+
+      const samples = new Int16Array([1, 2, 3]);
+      client.sendAudio(samples);
+
+      expect(transport.sendAudio).toHaveBeenCalledWith(samples);
+
+      client.disconnect();
+    });
+
+    it("throws from sendAudio when the transport does not take PCM", async () => {
+      const { client } = createClient({ headless: true });
+      const transport = new MockTransport();
+      (transport as Partial<MockTransport>).sendAudio = undefined;
+      await client.connect({ transport });
+
+      expect(() => client.sendAudio(new Int16Array(1))).toThrow(
+        "Transport does not accept raw audio input.",
+      );
+
+      client.disconnect();
+    });
+
+    it("delivers speech delimiters on a timer", async () => {
+      const { client, callbacks } = createClient({ headless: true });
+      const transport = new MockTransport();
+      await client.connect({ transport });
+
+      transport.callbacks!.onMessage({
+        type: "transcription",
+        transcription: {
+          complete: [{ word: "hello", start: 0, end: 1 }],
+          partial: [],
+          utterance_idx: 0,
+        },
+      });
+      (callbacks.onUtterance as jest.Mock).mockClear();
+
+      transport.callbacks!.onMessage({
+        type: "speech_delimiter",
+        speech_delimiter: {
+          time: 0,
+          transcription: { utterance_idx: 0, word_idx: 1, char_idx: 0 },
+          translation: { utterance_idx: 0, word_idx: 0, char_idx: 0 },
+        },
+      });
+
+      expect(createdBufferSourceNodes).toHaveLength(0);
+      expect(callbacks.onUtterance).not.toHaveBeenCalled();
+
+      await client.drainAudio();
+
+      const lastCall = (callbacks.onUtterance as jest.Mock).mock.calls.at(-1);
+      expect(lastCall[0].transcription.spokenText).toBe("hello");
+
+      client.disconnect();
+    });
+  });
 });
@@ -0,0 +1,199 @@
+import { MockTransport } from "../MockTransport";
+import { TranslationFanOut } from "../TranslationFanOut";
+import { Transport } from "../types";
+
+class MockTrack {
+  enabled = true;
+  clones: MockTrack[] = [];
+  stop = jest.fn();
+
+  clone() {
+    const clone = new MockTrack();
+    this.clones.push(clone);
+    return clone;
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function makeFanOut(
+  transportOptions: Record<
+    string,
+    ConstructorParameters<typeof MockTransport>[0]
+  > = {},
+) {
+  const transports: Record<string, MockTransport> = {};
+  const onStatusChange = jest.fn();
+  const fanOut = new TranslationFanOut({
+    clientOptions: {
+      apiKey: "test-key",
+      endpoint: "https://lt.test.com",
+      headless: true,
+    },
+    targets: [
+      { langOut: "es-ES" },
+      { langOut: "fr-FR" },
+      { langOut: "ja-JP", voiceId: "ja-voice" },
+    ],
+    createTransport: (langOut): Transport => {
+      transports[langOut] = new MockTransport(transportOptions[langOut]);
+      return transports[langOut];
+    },
+    onStatusChange,
+  });
+  return { fanOut, transports, onStatusChange };
+}
+
+describe("TranslationFanOut", () => {
+  it("shares one input track across a session per language", async () => {
+    const { fanOut, transports } = makeFanOut();
+    const track = new MockTrack();
+
+    const connected = await fanOut.connect({
+      audioTrack: track as unknown as MediaStreamTrack,
+    });
+
+    expect(connected).toEqual(["es-ES", "fr-FR", "ja-JP"]);
+    expect(track.clones).toHaveLength(3);
+    expect(
+      Object.values(transports).map(
+        (transport) => transport.connectCalls[0].options.audioTrack,
+      ),
+    ).toEqual(track.clones);
+
+    fanOut.disconnect();
+    for (const clone of track.clones) expect(clone.stop).toHaveBeenCalled();
+    expect(track.stop).not.toHaveBeenCalled();
+  });
+
+  it("resets each language to its own output", async () => {
+    const { fanOut, transports } = makeFanOut();
+    await fanOut.connect();
+
+    await fanOut.reset({ langIn: "en-US", voiceId: "default-voice" });
+
+    expect(transports["es-ES"].lastConfiguration).toMatchObject({
+      langIn: "en-US",
+      langOut: "es-ES",
+      voiceId: "default-voice",
+    });
+    expect(transports["fr-FR"].lastConfiguration?.langOut).toBe("fr-FR");
+    expect(transports["ja-JP"].lastConfiguration?.voiceId).toBe("ja-voice");
+    expect(fanOut.statuses().every((status) => status.ready)).toBe(true);
+    fanOut.disconnect();
+  });
+
+  it("keeps a TranslationState per language", async () => {
+    const { fanOut, transports } = makeFanOut();
+    await fanOut.connect();
+    await fanOut.reset({ langIn: "en-US" });
+
+    transports["fr-FR"].emit({
+      type: "transcription",
+      transcription: {
+        utterance_idx: 0,
+        complete: [{ word: "Hello", start: 0, end: 0.5 }],
+        partial: [],
+      },
+    });
+
+    expect(fanOut.state("fr-FR").getState().utterances).toHaveLength(1);
+    expect(fanOut.state("es-ES").getState().utterances).toHaveLength(0);
+    fanOut.disconnect();
+  });
+
+  it("keeps the other languages running when one fails to connect", async () => {
+    const { fanOut, onStatusChange } = makeFanOut({
+      "fr-FR": { failConnect: "Connection refused" },
+    });
+
+    const connected = await fanOut.connect();
+
+    expect(connected).toEqual(["es-ES", "ja-JP"]);
+    expect(fanOut.status("fr-FR")).toMatchObject({
+      connectionState: "disconnected",
+      error: expect.objectContaining({ code: "network" }),
+    });
+    expect(onStatusChange).toHaveBeenCalledWith(
+      expect.objectContaining({ langOut: "fr-FR", error: expect.any(Error) }),
+    );
+
+    await fanOut.reset({ langIn: "en-US" });
+    expect(fanOut.status("es-ES").ready).toBe(true);
+    expect(fanOut.status("fr-FR").ready).toBe(false);
+    fanOut.disconnect();
+  });
+
+  it("fails when no language connects", async () => {
+    const { fanOut } = makeFanOut({
+      "es-ES": { failConnect: "Connection refused" },
+      "fr-FR": { failConnect: "Connection refused" },
+      "ja-JP": { failConnect: "Connection refused" },
+    });
+
+    await expect(fanOut.connect()).rejects.toMatchObject({ code: "network" });
+    expect(fanOut.isConnected).toBe(false);
+  });
+
+  it("reports a dropped language and stops its track", async () => {
+    const { fanOut, transports } = makeFanOut();
+    const track = new MockTrack();
+    await fanOut.connect({ audioTrack: track as unknown as MediaStreamTrack });
+
+    transports["ja-JP"].simulateDisconnect();
+    await flush();
+
+    expect(fanOut.status("ja-JP").connectionState).toBe("disconnected");
+    expect(fanOut.status("es-ES").connectionState).toBe("connected");
+    const [spanish, , japanese] = track.clones;
+    expect(japanese.stop).toHaveBeenCalled();
+    expect(spanish.stop).not.toHaveBeenCalled();
+    fanOut.disconnect();
+  });
+
+  it("sends audio, push-to-talk and text to every language", async () => {
+    const { fanOut, transports } = makeFanOut();
+    await fanOut.connect({ pushToTalk: true });
+    const samples = new Int16Array(160);
+
+    fanOut.startTalking();
+    fanOut.sendAudio(samples);
+    fanOut.stopTalking();
+    fanOut.sendText("Welcome");
+
+    for (const transport of Object.values(transports)) {
+      expect(transport.sentAudio).toEqual([samples]);
+      expect(transport.recordings).toEqual(["start", "stop"]);
+      expect(transport.sentText).toEqual([{ text: "Welcome", options: {} }]);
+    }
+    fanOut.disconnect();
+  });
+
+  it("replaces the input track of every language", async () => {
+    const { fanOut, transports } = makeFanOut();
+    const first = new MockTrack();
+    await fanOut.connect({ audioTrack: first as unknown as MediaStreamTrack });
+    const second = new MockTrack();
+
+    await fanOut.replaceAudioTrack(second as unknown as MediaStreamTrack);
+
+    expect(
+      Object.values(transports).map(
+        (transport) => transport.replacedAudioTracks[0],
+      ),
+    ).toEqual(second.clones);
+    for (const clone of first.clones) expect(clone.stop).toHaveBeenCalled();
+    fanOut.disconnect();
+  });
+
+  it("rejects duplicate target languages", () => {
+    expect(
+      () =>
+        new TranslationFanOut({
+          clientOptions: { apiKey: "k", endpoint: "https://lt.test.com" },
+          targets: [{ langOut: "es-ES" }, { langOut: "es-ES" }],
+          createTransport: () => new MockTransport(),
+        }),
+    ).toThrow("Duplicate target language: es-ES");
+  });
+});
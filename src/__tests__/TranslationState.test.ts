@@ -1,3 +1,4 @@
+import { ServerError } from "../errors";
 import { TranslationState } from "../TranslationState";
 import {
   IdentifiedLanguage,
@@ -127,6 +128,38 @@ describe("TranslationState", () => {
       const result = state.getState();
       expect(result.utterances).toHaveLength(2);
     });
+
+    it("flags typed utterances", () => {
+      const state = new TranslationState(makeCallbacks());
+
+      state.handleMessage(
+        lt({
+          type: "transcription",
+          transcription: {
+            complete: [makeWord("spoken")],
+            partial: [],
+            utterance_idx: 0,
+          },
+        }),
+      );
+      state.handleMessage(
+        lt({
+          type: "transcription",
+          transcription: {
+            complete: [makeWord("typed")],
+            partial: [],
+            utterance_idx: 1,
+            typed: true,
+          },
+        }),
+      );
+
+      const { utterances } = state.getState();
+      expect(utterances.map((utterance) => utterance.typed)).toEqual([
+        false,
+        true,
+      ]);
+    });
   });
 
   describe("handleMessage — translation (via StreamMessage)", () => {
@@ -410,7 +443,30 @@ describe("TranslationState", () => {
 
       state.handleMessage({ type: "error", message: "something went wrong" });
 
-      expect(callbacks.onError).toHaveBeenCalledWith("something went wrong");
+      expect(callbacks.onError).toHaveBeenCalledWith(
+        "something went wrong",
+        expect.any(ServerError),
+      );
+    });
+
+    it("rebuilds the typed error from the message", () => {
+      const callbacks = makeCallbacks();
+      const state = new TranslationState(callbacks);
+
+      state.handleMessage({
+        type: "error",
+        message: "Access denied",
+        code: "permission",
+        status: 403,
+      });
+
+      const error = (callbacks.onError as jest.Mock).mock.calls[0][1];
+      expect(error).toMatchObject({
+        name: "PermissionError",
+        code: "permission",
+        recoverable: false,
+        status: 403,
+      });
     });
   });
 
@@ -0,0 +1,835 @@
+import { NetworkError } from "../errors";
+import {
+  AccessTokenProvider,
+  LTMessage,
+  SanasTranslationClientOptions,
+  TransportCallbacks,
+} from "../types";
+import { WebRTCTransport, WebRTCTransportOptions } from "../WebRTCTransport";
+
+type PeerConfiguration = NonNullable<
+  WebRTCTransportOptions["rtcConfiguration"]
+>;
+
+// --- Mock browser APIs ---
+
+class MockMediaStreamTrack {
+  kind = "audio";
+  enabled = true;
+  stop = jest.fn();
+}
+
+class MockMediaStream {
+  private tracks: MockMediaStreamTrack[];
+
+  constructor(tracks: MockMediaStreamTrack[] = [new MockMediaStreamTrack()]) {
+    this.tracks = tracks;
+  }
+
+  getTracks() {
+    return this.tracks;
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter((t) => t.kind === "audio");
+  }
+}
+
+class MockDataChannel {
+  readyState = "connecting";
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  send = jest.fn();
+}
+
+class MockPeerConnection {
+  static instances: MockPeerConnection[] = [];
+
+  configuration: PeerConfiguration | undefined;
+  connectionState = "new";
+  localDescription: unknown = null;
+  stats: Record<string, unknown>[] = [];
+  ontrack: ((event: { streams: MockMediaStream[] }) => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+  onnegotiationneeded: (() => void) | null = null;
+  createDataChannel = jest.fn(() => new MockDataChannel());
+  sender = { replaceTrack: jest.fn(async (_track: unknown) => {}) };
+  addTrack = jest.fn(() => this.sender);
+  close = jest.fn();
+  createOffer = jest.fn(async () => ({ type: "offer", sdp: "offer-sdp" }));
+  setLocalDescription = jest.fn(async () => {});
+  setRemoteDescription = jest.fn(async () => {});
+  getStats = jest.fn(async () => {
+    const report = new Map(this.stats.map((s) => [s.id as string, s]));
+    return report;
+  });
+
+  constructor(configuration?: PeerConfiguration) {
+    this.configuration = configuration;
+    MockPeerConnection.instances.push(this);
+  }
+
+  setConnectionState(state: string) {
+    this.connectionState = state;
+    this.onconnectionstatechange?.();
+  }
+}
+
+(globalThis as unknown as Record<string, unknown>).MediaStream =
+  MockMediaStream;
+(globalThis as unknown as Record<string, unknown>).RTCPeerConnection =
+  MockPeerConnection;
+
+const mockFetch = jest.fn();
+(globalThis as unknown as Record<string, unknown>).fetch = mockFetch;
+
+// --- Helpers ---
+
+const clientOptions: SanasTranslationClientOptions = {
+  apiKey: "test-key",
+  endpoint: "https://lt.test.com",
+};
+
+function makeCallbacks(): TransportCallbacks {
+  return {
+    onMessage: jest.fn(),
+    onError: jest.fn(),
+    onConnectionStateChange: jest.fn(),
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function connect(
+  options: WebRTCTransportOptions = {},
+  callbacks: TransportCallbacks = makeCallbacks(),
+) {
+  const transport = new WebRTCTransport(options);
+  const connecting = transport.connect(
+    {
+      transport,
+      audioTrack: new MockMediaStreamTrack() as unknown as MediaStreamTrack,
+    },
+    clientOptions,
+    callbacks,
+  );
+  await flush();
+
+  const peer = MockPeerConnection.instances.at(-1)!;
+  peer.ontrack?.({ streams: [new MockMediaStream()] });
+  await connecting;
+  return { transport, peer };
+}
+
+// --- Tests ---
+
+describe("WebRTCTransport ICE configuration", () => {
+  beforeEach(() => {
+    MockPeerConnection.instances = [];
+    mockFetch.mockReset();
+  });
+
+  it("passes the RTC configuration to the peer connection", async () => {
+    const rtcConfiguration: PeerConfiguration = {
+      iceServers: [{ urls: "stun:stun.test.com:3478" }],
+      iceTransportPolicy: "relay",
+      bundlePolicy: "max-bundle",
+    };
+
+    const { peer, transport } = await connect({ rtcConfiguration });
+
+    expect(peer.configuration).toEqual(rtcConfiguration);
+    expect(mockFetch).not.toHaveBeenCalled();
+    transport.disconnect();
+  });
+
+  it("adds TURN credentials fetched from the LT server", async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
+        success: true,
+        data: {
+          ice_servers: [
+            {
+              urls: ["turn:turn.test.com:3478?transport=udp"],
+              username: "user",
+              credential: "secret",
+            },
+          ],
+        },
+      }),
+    );
+
+    const { peer, transport } = await connect({
+      rtcConfiguration: {
+        iceServers: [{ urls: "stun:stun.test.com" }],
+        iceTransportPolicy: "relay",
+      },
+      fetchTurnCredentials: true,
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://lt.test.com/v2/turn/credentials",
+      { method: "POST", headers: { "X-API-Key": "test-key" } },
+    );
+    expect(peer.configuration).toEqual({
+      iceServers: [
+        { urls: "stun:stun.test.com" },
+        {
+          urls: ["turn:turn.test.com:3478?transport=udp"],
+          username: "user",
+          credential: "secret",
+        },
+      ],
+      iceTransportPolicy: "relay",
+    });
+    transport.disconnect();
+  });
+
+  it("falls back to the configured ICE servers if TURN fetch fails", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    mockFetch.mockResolvedValueOnce(jsonResponse({}, 500));
+
+    const { peer, transport } = await connect({
+      rtcConfiguration: { iceServers: [{ urls: "stun:stun.test.com" }] },
+      fetchTurnCredentials: true,
+    });
+
+    expect(peer.configuration).toEqual({
+      iceServers: [{ urls: "stun:stun.test.com" }],
+    });
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+    transport.disconnect();
+  });
+
+  it("stops connecting when disconnected while fetching TURN credentials", async () => {
+    let respond!: (response: unknown) => void;
+    mockFetch.mockReturnValueOnce(
+      new Promise((resolve) => {
+        respond = resolve;
+      }),
+    );
+    const transport = new WebRTCTransport({ fetchTurnCredentials: true });
+    const connecting = transport.connect(
+      {
+        transport,
+        audioTrack: new MockMediaStreamTrack() as unknown as MediaStreamTrack,
+      },
+      clientOptions,
+      makeCallbacks(),
+    );
+    await flush();
+
+    transport.disconnect();
+    respond(jsonResponse({ success: true, data: { ice_servers: [] } }));
+
+    await expect(connecting).rejects.toThrow(NetworkError);
+    expect(MockPeerConnection.instances).toHaveLength(0);
+  });
+
+  it("reports the selected candidate pair once connected", async () => {
+    const onSelectedCandidatePair = jest.fn();
+    const { peer, transport } = await connect({ onSelectedCandidatePair });
+
+    peer.stats = [
+      { id: "T1", type: "transport", selectedCandidatePairId: "CP1" },
+      {
+        id: "CP1",
+        type: "candidate-pair",
+        localCandidateId: "L1",
+        remoteCandidateId: "R1",
+      },
+      {
+        id: "L1",
+        type: "local-candidate",
+        candidateType: "relay",
+        protocol: "udp",
+        relayProtocol: "tls",
+      },
+      { id: "R1", type: "remote-candidate", candidateType: "host" },
+    ];
+    peer.setConnectionState("connected");
+    await flush();
+
+    const pair = {
+      localType: "relay",
+      remoteType: "host",
+      protocol: "udp",
+      relayProtocol: "tls",
+    };
+    expect(onSelectedCandidatePair).toHaveBeenCalledWith(pair);
+    expect(transport.selectedCandidatePair).toEqual(pair);
+
+    transport.disconnect();
+    expect(transport.selectedCandidatePair).toBeNull();
+  });
+
+  it("finds the selected pair from candidate-pair stats", async () => {
+    const { peer, transport } = await connect();
+
+    peer.stats = [
+      {
+        id: "CP1",
+        type: "candidate-pair",
+        selected: true,
+        localCandidateId: "L1",
+        remoteCandidateId: "R1",
+      },
+      { id: "L1", type: "local-candidate", candidateType: "srflx" },
+      { id: "R1", type: "remote-candidate", candidateType: "host" },
+    ];
+    peer.setConnectionState("connected");
+    await flush();
+
+    expect(transport.selectedCandidatePair).toEqual({
+      localType: "srflx",
+      remoteType: "host",
+      protocol: null,
+      relayProtocol: null,
+    });
+    transport.disconnect();
+  });
+});
+
+describe("WebRTCTransport connection state", () => {
+  beforeEach(() => {
+    MockPeerConnection.instances = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("waits out a transient ICE disconnection", async () => {
+    const callbacks = makeCallbacks();
+    const { peer, transport } = await connect(
+      { disconnectedGraceMs: 3000 },
+      callbacks,
+    );
+    jest.useFakeTimers();
+    peer.setConnectionState("connected");
+
+    peer.setConnectionState("disconnected");
+    jest.advanceTimersByTime(2000);
+    peer.setConnectionState("connected");
+    jest.advanceTimersByTime(5000);
+
+    expect(callbacks.onConnectionStateChange).not.toHaveBeenCalledWith(
+      "disconnected",
+    );
+
+    peer.setConnectionState("disconnected");
+    jest.advanceTimersByTime(3000);
+
+    expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+      "disconnected",
+    );
+    transport.disconnect();
+  });
+
+  it("reports a failed connection right away", async () => {
+    const callbacks = makeCallbacks();
+    const { peer, transport } = await connect({}, callbacks);
+
+    peer.setConnectionState("failed");
+
+    expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+      "disconnected",
+    );
+    expect(callbacks.onError).toHaveBeenCalledWith(expect.any(NetworkError));
+    transport.disconnect();
+  });
+});
+
+describe("WebRTCTransport quality metrics", () => {
+  beforeEach(() => {
+    MockPeerConnection.instances = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function audioStats(
+    timestamp: number,
+    counters: { bytes: number; packets: number; lost: number },
+    remote: Record<string, unknown> = {},
+  ) {
+    return [
+      {
+        id: "IN",
+        type: "inbound-rtp",
+        kind: "audio",
+        timestamp,
+        bytesReceived: counters.bytes,
+        packetsReceived: counters.packets,
+        packetsLost: counters.lost,
+        jitter: 0.01,
+        audioLevel: 0.5,
+      },
+      {
+        id: "OUT",
+        type: "outbound-rtp",
+        kind: "audio",
+        timestamp,
+        bytesSent: counters.bytes,
+        packetsSent: counters.packets,
+        mediaSourceId: "SRC",
+      },
+      { id: "SRC", type: "media-source", kind: "audio", audioLevel: 0.25 },
+      {
+        id: "RIN",
+        type: "remote-inbound-rtp",
+        kind: "audio",
+        jitter: 0.005,
+        fractionLost: 0,
+        roundTripTime: 0.08,
+        ...remote,
+      },
+    ];
+  }
+
+  it("samples connection quality periodically once connected", async () => {
+    const callbacks = { ...makeCallbacks(), onQualityMetrics: jest.fn() };
+    const { peer, transport } = await connect(
+      { qualityMetricsIntervalMs: 1000 },
+      callbacks,
+    );
+    jest.useFakeTimers();
+
+    peer.stats = audioStats(1000, { bytes: 0, packets: 0, lost: 0 });
+    peer.setConnectionState("connected");
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(callbacks.onQualityMetrics).toHaveBeenCalledTimes(1);
+    expect(callbacks.onQualityMetrics).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        grade: "good",
+        roundTripTimeMs: 80,
+        inbound: {
+          bitrateKbps: null,
+          packetLoss: null,
+          jitterMs: 10,
+          audioLevel: 0.5,
+        },
+        outbound: {
+          bitrateKbps: null,
+          packetLoss: 0,
+          jitterMs: 5,
+          audioLevel: 0.25,
+        },
+      }),
+    );
+
+    peer.stats = audioStats(2000, { bytes: 4000, packets: 49, lost: 1 });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(callbacks.onQualityMetrics).toHaveBeenCalledTimes(2);
+    const metrics = transport.qualityMetrics!;
+    expect(metrics.inbound.bitrateKbps).toBe(32);
+    expect(metrics.inbound.packetLoss).toBe(0.02);
+    expect(metrics.outbound.bitrateKbps).toBe(32);
+    expect(metrics.grade).toBe("good");
+
+    transport.disconnect();
+    expect(transport.qualityMetrics).toBeNull();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(callbacks.onQualityMetrics).toHaveBeenCalledTimes(2);
+  });
+
+  it("grades high loss and latency as poor", async () => {
+    const callbacks = { ...makeCallbacks(), onQualityMetrics: jest.fn() };
+    const { peer, transport } = await connect({}, callbacks);
+
+    peer.stats = audioStats(
+      1000,
+      { bytes: 0, packets: 90, lost: 10 },
+      { roundTripTime: 0.3 },
+    );
+    peer.setConnectionState("connected");
+    await flush();
+
+    expect(transport.qualityMetrics).toEqual(
+      expect.objectContaining({ grade: "poor", roundTripTimeMs: 300 }),
+    );
+    expect(transport.qualityMetrics!.inbound.packetLoss).toBe(0.1);
+    transport.disconnect();
+  });
+
+  it("grades moderate latency as fair", async () => {
+    const callbacks = { ...makeCallbacks(), onQualityMetrics: jest.fn() };
+    const { peer, transport } = await connect({}, callbacks);
+
+    peer.stats = [
+      ...audioStats(1000, { bytes: 0, packets: 100, lost: 0 }),
+      {
+        id: "CP1",
+        type: "candidate-pair",
+        selected: true,
+        currentRoundTripTime: 0.3,
+      },
+    ];
+    peer.setConnectionState("connected");
+    await flush();
+
+    expect(transport.qualityMetrics!.grade).toBe("fair");
+    expect(transport.qualityMetrics!.roundTripTimeMs).toBe(300);
+    transport.disconnect();
+  });
+
+  it("warns once when stats keep failing", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const callbacks = { ...makeCallbacks(), onQualityMetrics: jest.fn() };
+    const { peer, transport } = await connect(
+      { qualityMetricsIntervalMs: 1000 },
+      callbacks,
+    );
+    jest.useFakeTimers();
+
+    peer.getStats.mockRejectedValue(new Error("closed"));
+    peer.setConnectionState("connected");
+    await jest.advanceTimersByTimeAsync(3000);
+
+    const qualityWarnings = warn.mock.calls.filter(
+      ([message]) => message === "Failed to read connection quality stats:",
+    );
+    expect(qualityWarnings).toHaveLength(1);
+    expect(callbacks.onQualityMetrics).not.toHaveBeenCalled();
+    transport.disconnect();
+    warn.mockRestore();
+  });
+
+  it("does not poll without an onQualityMetrics callback", async () => {
+    const { peer, transport } = await connect();
+
+    peer.setConnectionState("connected");
+    await flush();
+
+    // Only the candidate pair lookup reads stats.
+    expect(peer.getStats).toHaveBeenCalledTimes(1);
+    expect(transport.qualityMetrics).toBeNull();
+    transport.disconnect();
+  });
+});
+
+describe("WebRTCTransport access tokens", () => {
+  beforeEach(() => {
+    MockPeerConnection.instances = [];
+    mockFetch.mockReset();
+  });
+
+  async function negotiate(accessToken: AccessTokenProvider) {
+    const transport = new WebRTCTransport();
+    const callbacks = makeCallbacks();
+    const connecting = transport.connect(
+      {
+        transport,
+        audioTrack: new MockMediaStreamTrack() as unknown as MediaStreamTrack,
+      },
+      { endpoint: "https://lt.test.com", accessToken },
+      callbacks,
+    );
+    await flush();
+
+    const peer = MockPeerConnection.instances.at(-1)!;
+    peer.onnegotiationneeded?.();
+    await flush();
+    peer.ontrack?.({ streams: [new MockMediaStream()] });
+    await connecting;
+    return { transport, callbacks };
+  }
+
+  const sentTokens = () =>
+    mockFetch.mock.calls.map(([, init]) => init.headers.Authorization);
+
+  it("retries /session once with a refreshed token", async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(
+        jsonResponse({ type: "answer", sdp: "", session_id: "s1" }),
+      );
+    const accessToken = jest.fn(async ({ forceRefresh }) =>
+      forceRefresh ? "fresh" : "stale",
+    );
+
+    const { transport, callbacks } = await negotiate(accessToken);
+
+    expect(sentTokens()).toEqual(["Bearer stale", "Bearer fresh"]);
+    expect(transport.sessionId).toBe("s1");
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    transport.disconnect();
+  });
+
+  it("refreshes a token that is about to expire", async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ type: "answer", sdp: "", session_id: "s1" }),
+    );
+    const accessToken = jest.fn(({ forceRefresh }) =>
+      forceRefresh
+        ? { token: "fresh", expiresAt: Date.now() + 3600000 }
+        : { token: "expiring", expiresAt: Date.now() + 1000 },
+    );
+
+    const { transport } = await negotiate(accessToken);
+
+    expect(sentTokens()).toEqual(["Bearer fresh"]);
+    transport.disconnect();
+  });
+});
+
+describe("WebRTCTransport track replacement", () => {
+  beforeEach(() => {
+    MockPeerConnection.instances = [];
+    mockFetch.mockReset();
+  });
+
+  it("replaces the sent track without renegotiating", async () => {
+    const { peer, transport } = await connect();
+    const newTrack = new MockMediaStreamTrack();
+
+    await transport.replaceAudioTrack(newTrack as unknown as MediaStreamTrack);
+    transport.setAudioEnabled(false);
+
+    expect(peer.sender.replaceTrack).toHaveBeenCalledWith(newTrack);
+    expect(peer.createOffer).not.toHaveBeenCalled();
+    expect(newTrack.enabled).toBe(false);
+    transport.disconnect();
+  });
+
+  it("rejects when not connected", async () => {
+    const transport = new WebRTCTransport();
+
+    await expect(
+      transport.replaceAudioTrack(
+        new MockMediaStreamTrack() as unknown as MediaStreamTrack,
+      ),
+    ).rejects.toThrow("Not connected. Call connect() first.");
+  });
+});
+
+describe("WebRTCTransport text input", () => {
+  beforeEach(() => {
+    MockPeerConnection.instances = [];
+    mockFetch.mockReset();
+  });
+
+  it("connects text-only and sends text on the data channel", async () => {
+    const transport = new WebRTCTransport();
+    const connecting = transport.connect(
+      { transport, textOnly: true },
+      clientOptions,
+      makeCallbacks(),
+    );
+    await flush();
+    const peer = MockPeerConnection.instances.at(-1)!;
+    peer.ontrack?.({ streams: [new MockMediaStream()] });
+    await connecting;
+
+    const channel = peer.createDataChannel.mock.results[0]
+      .value as MockDataChannel;
+    channel.readyState = "open";
+    transport.sendText("Hello", { synthesize: true });
+
+    expect(peer.addTrack).not.toHaveBeenCalled();
+    expect(channel.send).toHaveBeenCalledWith(
+      JSON.stringify({
+        type: "text",
+        text: { text: "Hello", synthesize: true },
+      }),
+    );
+    transport.disconnect();
+  });
+});
+
+describe("WebRTCTransport consecutive mode", () => {
+  class MockScriptProcessor {
+    onaudioprocess: ((event: unknown) => void) | null = null;
+    connect = jest.fn();
+    disconnect = jest.fn();
+
+    process(samples: Float32Array) {
+      this.onaudioprocess?.({ inputBuffer: { getChannelData: () => samples } });
+    }
+  }
+
+  class MockAudioContext {
+    currentTime = 0;
+    destination = {};
+    constructor(readonly options: { sampleRate?: number } = {}) {}
+    get sampleRate() {
+      return this.options.sampleRate ?? 48000;
+    }
+    playbackStream = new MockMediaStream();
+    processor = new MockScriptProcessor();
+    started: number[] = [];
+    createMediaStreamSource = jest.fn(() => ({ connect: jest.fn() }));
+    createScriptProcessor = jest.fn(() => this.processor);
+    createMediaStreamDestination = jest.fn(() => ({
+      stream: this.playbackStream,
+    }));
+    createBuffer = jest.fn(
+      (_channels: number, length: number, rate: number) => ({
+        duration: length / rate,
+        getChannelData: () => new Float32Array(length),
+      }),
+    );
+    createBufferSource = jest.fn(() => ({
+      buffer: null,
+      connect: jest.fn(),
+      start: (time: number) => this.started.push(time),
+    }));
+    close = jest.fn();
+  }
+
+  const globals = globalThis as unknown as Record<string, unknown>;
+  let contexts: MockAudioContext[];
+
+  beforeEach(() => {
+    MockPeerConnection.instances = [];
+    mockFetch.mockReset();
+    contexts = [];
+    globals.AudioContext = class extends MockAudioContext {
+      constructor(options?: { sampleRate?: number }) {
+        super(options);
+        contexts.push(this);
+      }
+    };
+  });
+
+  afterEach(() => {
+    delete globals.AudioContext;
+  });
+
+  it("replays each turn's translation once the turn ends", async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ type: "answer", sdp: "", session_id: "s1" }),
+    );
+    const onTurnStateChange = jest.fn();
+    const transport = new WebRTCTransport();
+    const connecting = transport.connect(
+      {
+        transport,
+        audioTrack: new MockMediaStreamTrack() as unknown as MediaStreamTrack,
+        mode: "consecutive",
+        onTurnStateChange,
+      },
+      clientOptions,
+      makeCallbacks(),
+    );
+    await flush();
+    const peer = MockPeerConnection.instances.at(-1)!;
+    peer.onnegotiationneeded?.();
+    await flush();
+    peer.ontrack?.({ streams: [new MockMediaStream()] });
+    const { audio } = await connecting;
+
+    const [ctx] = contexts;
+    const channel = peer.createDataChannel.mock.results[0].value;
+    const sessionBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(sessionBody.mode).toBe("consecutive");
+    expect(audio).toBe(ctx.playbackStream);
+
+    channel.onmessage?.({
+      data: JSON.stringify({
+        type: "transcription",
+        transcription: {
+          complete: [{ word: "hello", start: 0, end: 0.5 }],
+          partial: [],
+          utterance_idx: 0,
+        },
+      }),
+    });
+    ctx.processor.process(new Float32Array(4096).fill(0.5));
+    expect(ctx.started).toEqual([]);
+
+    channel.onmessage?.({
+      data: JSON.stringify({ type: "speech_stop", speech_stop: {} }),
+    });
+
+    expect(ctx.started).toEqual([0]);
+    expect(onTurnStateChange.mock.calls).toEqual([
+      ["speaking"],
+      ["interpreting"],
+    ]);
+    transport.disconnect();
+  });
+
+  it("times speech delimiters to the replayed audio", async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ type: "answer", sdp: "", session_id: "s1" }),
+    );
+    const callbacks = makeCallbacks();
+    const transport = new WebRTCTransport();
+    const connecting = transport.connect(
+      {
+        transport,
+        audioTrack: new MockMediaStreamTrack() as unknown as MediaStreamTrack,
+        mode: "consecutive",
+      },
+      clientOptions,
+      callbacks,
+    );
+    await flush();
+    const peer = MockPeerConnection.instances.at(-1)!;
+    peer.onnegotiationneeded?.();
+    await flush();
+    peer.ontrack?.({ streams: [new MockMediaStream()] });
+    await connecting;
+
+    const [ctx] = contexts;
+    const channel = peer.createDataChannel.mock.results[0].value;
+    const receive = (message: unknown) =>
+      channel.onmessage?.({ data: JSON.stringify(message) });
+    const delimiterTimes = () =>
+      (callbacks.onMessage as jest.Mock).mock.calls
+        .map(([message]: [LTMessage]) => message)
+        .flatMap((message) =>
+          message.type === "speech_delimiter"
+            ? [message.speech_delimiter.time]
+            : [],
+        );
+
+    receive({
+      type: "transcription",
+      transcription: {
+        complete: [{ word: "hello", start: 0, end: 0.5 }],
+        partial: [],
+        utterance_idx: 0,
+      },
+    });
+    // Capture starts 1 s after connect(): 256 ms of speech, 256 ms of
+    // silence and another 256 ms of speech.
+    ctx.currentTime = 1.256;
+    ctx.processor.process(new Float32Array(4096).fill(0.5));
+    ctx.processor.process(new Float32Array(4096));
+    ctx.processor.process(new Float32Array(4096).fill(0.5));
+    // Halfway through the second stretch of speech.
+    receive({
+      type: "speech_delimiter",
+      speech_delimiter: {
+        time: 1.64,
+        transcription: { utterance_idx: 0, word_idx: 0, char_idx: 0 },
+        translation: { utterance_idx: 0, word_idx: 0, char_idx: 0 },
+      },
+    });
+    expect(delimiterTimes()).toEqual([]);
+
+    ctx.currentTime = 2;
+    receive({ type: "speech_stop", speech_stop: {} });
+
+    expect(ctx.started).toEqual([2, expect.closeTo(2.256)]);
+    expect(delimiterTimes()).toEqual([expect.closeTo(2.384, 2)]);
+    transport.disconnect();
+  });
+});
@@ -0,0 +1,1177 @@
+import { audioSourceFromPcm } from "../audioSource";
+import { AudioSourceError, NetworkError } from "../errors";
+import { createPcmWorkletNode } from "../pcmWorklet";
+import {
+  ConnectOptions,
+  LTMessage,
+  SanasTranslationClientOptions,
+  TransportCallbacks,
+} from "../types";
+import {
+  WebSocketConstructor,
+  WebSocketTransport,
+  WebSocketTransportOptions,
+} from "../WebSocketTransport";
+
+jest.mock("../pcmWorklet", () => ({
+  createPcmWorkletNode: jest.fn(async () => ({
+    port: { onmessage: null },
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+  })),
+}));
+
+// --- Mock WebSocket ---
+
+class MockWebSocket {
+  static instances: MockWebSocket[] = [];
+
+  url: string;
+  readyState = 0;
+  binaryType = "blob";
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  send = jest.fn();
+  close = jest.fn(() => {
+    this.readyState = 3;
+  });
+
+  constructor(url: string) {
+    this.url = url;
+    MockWebSocket.instances.push(this);
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  receiveBinary(data: ArrayBuffer | ArrayBufferView) {
+    this.onmessage?.({ data });
+  }
+}
+
+// --- Helpers ---
+
+const clientOptions: SanasTranslationClientOptions = {
+  apiKey: "test-key",
+  endpoint: "https://lt.test.com",
+};
+
+function makeCallbacks(): TransportCallbacks & {
+  onMessage: jest.Mock;
+  onAudioData: jest.Mock;
+} {
+  return {
+    onMessage: jest.fn(),
+    onError: jest.fn(),
+    onConnectionStateChange: jest.fn(),
+    onAudioData: jest.fn(),
+  };
+}
+
+function toBase64(samples: Int16Array): string {
+  const bytes = new Uint8Array(samples.buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+async function connectHeadless(
+  options: Partial<ConnectOptions> = {},
+  transportOptions: WebSocketTransportOptions = {},
+) {
+  const transport = new WebSocketTransport({
+    headless: true,
+    webSocket: MockWebSocket as unknown as WebSocketConstructor,
+    ...transportOptions,
+  });
+  const callbacks = makeCallbacks();
+  const connecting = transport.connect(
+    { transport, ...options },
+    clientOptions,
+    callbacks,
+  );
+  const ws = MockWebSocket.instances.at(-1)!;
+  ws.open();
+  const result = await connecting;
+  // Tests below look at what follows the auth message.
+  ws.send.mockClear();
+  return { transport, callbacks, ws, result };
+}
+
+// --- Tests ---
+
+describe("WebSocketTransport (headless)", () => {
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+  });
+
+  it("connects through the provided WebSocket implementation", async () => {
+    const { ws, result, callbacks, transport } = await connectHeadless();
+
+    expect(ws.url).toBe("wss://lt.test.com/v2/consecutive");
+    expect(result.audio).toBeNull();
+    expect(callbacks.onConnectionStateChange).toHaveBeenCalledWith("connected");
+
+    transport.disconnect();
+  });
+
+  it("sends raw PCM input as audio messages", async () => {
+    const { ws, transport } = await connectHeadless();
+
+    const samples = new Int16Array([0, 1000, -1000]);
+    transport.sendAudio(samples);
+
+    expect(ws.send).toHaveBeenCalledWith(
+      JSON.stringify({ type: "audio", data: toBase64(samples) }),
+    );
+
+    transport.disconnect();
+  });
+
+  it("drops PCM input while audio is disabled", async () => {
+    const { ws, transport } = await connectHeadless();
+
+    transport.setAudioEnabled(false);
+    transport.sendAudio(new Int16Array([1, 2]));
+
+    expect(ws.send).not.toHaveBeenCalled();
+
+    transport.disconnect();
+  });
+
+  it("sends push-to-talk recording messages", async () => {
+    const { ws, transport } = await connectHeadless();
+
+    transport.sendRecording("start");
+    transport.sendRecording("stop");
+
+    expect(ws.send.mock.calls).toEqual([
+      [JSON.stringify({ type: "recording", recording: "start" })],
+      [JSON.stringify({ type: "recording", recording: "stop" })],
+    ]);
+
+    transport.disconnect();
+  });
+
+  it("sends typed text and flags its transcription", async () => {
+    const { ws, callbacks, transport } = await connectHeadless();
+
+    transport.sendText("Hello there", { synthesize: true });
+    ws.receive({
+      type: "transcription",
+      complete: [{ word: "Hello", start: 0, end: 0 }],
+      partial: [],
+      utterance_idx: 3,
+      typed: true,
+    });
+
+    expect(ws.send).toHaveBeenCalledWith(
+      JSON.stringify({ type: "text", text: "Hello there", synthesize: true }),
+    );
+    expect(callbacks.onMessage.mock.calls[0][0].transcription).toMatchObject({
+      utterance_idx: 3,
+      typed: true,
+    });
+
+    transport.disconnect();
+  });
+
+  it("refuses typed text while the socket is closed", async () => {
+    const { ws, transport } = await connectHeadless();
+    ws.readyState = 3;
+
+    expect(() => transport.sendText("Hello", {})).toThrow(NetworkError);
+    expect(ws.send).not.toHaveBeenCalled();
+
+    transport.disconnect();
+  });
+
+  it("delivers output audio through onAudioData", async () => {
+    const { ws, callbacks, transport } = await connectHeadless({
+      outputSampleRate: 24000,
+    });
+
+    const samples = new Int16Array([5, -5, 10]);
+    ws.receive({ type: "audio", data: toBase64(samples) });
+
+    expect(callbacks.onAudioData).toHaveBeenCalledWith(samples, 24000);
+
+    transport.disconnect();
+  });
+
+  it("waits for the emulated playback time in drainAudio", async () => {
+    const { ws, transport } = await connectHeadless();
+
+    // 0.05s of audio at 16kHz
+    ws.receive({ type: "audio", data: toBase64(new Int16Array(800)) });
+
+    const start = performance.now();
+    await transport.drainAudio();
+    expect(performance.now() - start).toBeGreaterThanOrEqual(30);
+
+    transport.disconnect();
+  });
+
+  it("maps server messages to LT messages", async () => {
+    const { ws, callbacks, transport } = await connectHeadless();
+
+    ws.receive({
+      type: "transcription",
+      complete: [{ word: "hi", start: 0, end: 1 }],
+      partial: [],
+    });
+
+    expect(callbacks.onMessage).toHaveBeenCalledWith({
+      type: "transcription",
+      transcription: {
+        complete: [{ word: "hi", start: 0, end: 1 }],
+        partial: [],
+        utterance_idx: 0,
+      },
+    } satisfies LTMessage);
+
+    transport.disconnect();
+  });
+
+  it("sends an audioSource once configured and signals its end", async () => {
+    const onAudioSourceEnd = jest.fn();
+    const samples = new Int16Array([1, 2, 3, 4]);
+    const { ws, transport } = await connectHeadless({
+      audioSource: audioSourceFromPcm(samples, 16000, { realtime: false }),
+      onAudioSourceEnd,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(ws.send).not.toHaveBeenCalled();
+
+    transport.configure({ langIn: "en-US", langOut: "es-ES" });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const sent = ws.send.mock.calls.map(([data]) => JSON.parse(data));
+    expect(sent.map((m) => m.type)).toEqual(["config", "audio", "stop"]);
+    expect(sent[1].data).toBe(toBase64(samples));
+    expect(onAudioSourceEnd).toHaveBeenCalledTimes(1);
+
+    transport.disconnect();
+  });
+
+  it("reports a failing audioSource once, as an AudioSourceError", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    const cause = new Error("read failed");
+    const { callbacks, transport } = await connectHeadless({
+      audioSource: {
+        sampleRate: 16000,
+        close: jest.fn(),
+        // eslint-disable-next-line require-yield
+        async *[Symbol.asyncIterator]() {
+          throw cause;
+        },
+      },
+    });
+
+    transport.configure({ langIn: "en-US", langOut: "es-ES" });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(callbacks.onError).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).toHaveBeenCalledWith(
+      expect.any(AudioSourceError),
+    );
+    expect(callbacks.onError).toHaveBeenCalledWith(
+      expect.objectContaining({ cause }),
+    );
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+    transport.disconnect();
+  });
+
+  it("rejects an audioSource at a different sample rate", async () => {
+    const transport = new WebSocketTransport({
+      headless: true,
+      webSocket: MockWebSocket as unknown as WebSocketConstructor,
+    });
+
+    await expect(
+      transport.connect(
+        {
+          transport,
+          audioSource: audioSourceFromPcm(new Int16Array(1), 8000),
+        },
+        clientOptions,
+        makeCallbacks(),
+      ),
+    ).rejects.toThrow(
+      new AudioSourceError(
+        "AudioSource sample rate 8000 does not match inputSampleRate 16000.",
+      ),
+    );
+  });
+});
+
+describe("WebSocketTransport consecutive mode", () => {
+  const loud = () => new Int16Array(800).fill(8000);
+  const words = (utteranceIdx: number) => ({
+    type: "transcription",
+    complete: [{ word: "hello", start: 0, end: 0.5 }],
+    partial: [],
+    utterance_idx: utteranceIdx,
+  });
+
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+  });
+
+  it("sends the mode in the config", async () => {
+    const { ws, transport } = await connectHeadless({ mode: "consecutive" });
+
+    transport.configure({ langIn: "en-US", langOut: "es-ES" });
+
+    expect(JSON.parse(ws.send.mock.calls[0][0]).mode).toBe("consecutive");
+    transport.disconnect();
+  });
+
+  it("holds translated audio until the speaker's turn ends", async () => {
+    const onTurnStateChange = jest.fn();
+    const { ws, callbacks, transport } = await connectHeadless({
+      mode: "consecutive",
+      onTurnStateChange,
+    });
+    const samples = loud();
+
+    ws.receive(words(0));
+    ws.receive({ type: "audio", data: toBase64(samples) });
+    // Silence while held is dropped.
+    ws.receive({ type: "audio", data: toBase64(new Int16Array(800)) });
+    expect(callbacks.onAudioData).not.toHaveBeenCalled();
+
+    ws.receive({ type: "speech_stop", utterance_idx: 0 });
+    expect(callbacks.onAudioData.mock.calls).toEqual([[samples, 16000]]);
+
+    // A late update to the ended utterance does not start a new turn.
+    ws.receive(words(0));
+    await transport.drainAudio();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(onTurnStateChange.mock.calls).toEqual([
+      ["speaking"],
+      ["interpreting"],
+      ["listening"],
+    ]);
+    transport.disconnect();
+  });
+
+  it("holds speech delimiters with their audio", async () => {
+    const { ws, callbacks, transport } = await connectHeadless({
+      mode: "consecutive",
+    });
+    const delimiter = (time: number) => ({
+      type: "speech_delimiter",
+      time,
+      transcription: { utterance_idx: 0, word_idx: 0, char_idx: 0 },
+      translation: { utterance_idx: 0, word_idx: 0, char_idx: 0 },
+    });
+    const delimiterTimes = () =>
+      callbacks.onMessage.mock.calls
+        .map(([message]: [LTMessage]) => message)
+        .flatMap((message) =>
+          message.type === "speech_delimiter"
+            ? [message.speech_delimiter.time]
+            : [],
+        );
+
+    // 50 ms of speech, 50 ms of silence and another 50 ms of speech.
+    ws.receive(words(0));
+    ws.receive({ type: "audio", data: toBase64(loud()) });
+    ws.receive({ type: "audio", data: toBase64(new Int16Array(800)) });
+    ws.receive({ type: "audio", data: toBase64(loud()) });
+    ws.receive(delimiter(0.125));
+    ws.receive(delimiter(0.075));
+    expect(delimiterTimes()).toEqual([]);
+
+    // The dropped silence no longer separates the speech.
+    ws.receive({ type: "speech_stop", utterance_idx: 0 });
+    expect(delimiterTimes()).toEqual([
+      expect.closeTo(0.075),
+      expect.closeTo(0.05),
+    ]);
+    transport.disconnect();
+  });
+
+  it("ends the turn on push-to-talk release", async () => {
+    const { ws, callbacks, transport } = await connectHeadless({
+      mode: "consecutive",
+    });
+
+    transport.sendRecording("start");
+    ws.receive({ type: "audio", data: toBase64(loud()) });
+    expect(callbacks.onAudioData).not.toHaveBeenCalled();
+
+    transport.sendRecording("stop");
+    expect(callbacks.onAudioData).toHaveBeenCalledTimes(1);
+    transport.disconnect();
+  });
+
+  it("plays audio as it arrives in simultaneous mode", async () => {
+    const onTurnStateChange = jest.fn();
+    const { ws, callbacks, transport } = await connectHeadless({
+      onTurnStateChange,
+    });
+
+    transport.configure({ langIn: "en-US", langOut: "es-ES" });
+    ws.receive(words(0));
+    ws.receive({ type: "audio", data: toBase64(loud()) });
+
+    expect(JSON.parse(ws.send.mock.calls[0][0]).mode).toBe("simultaneous");
+    expect(callbacks.onAudioData).toHaveBeenCalledTimes(1);
+    expect(onTurnStateChange).not.toHaveBeenCalled();
+    transport.disconnect();
+  });
+});
+
+describe("WebSocketTransport utterance indexing", () => {
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+  });
+
+  const words = (text: string) => [{ word: text, start: 0, end: 1 }];
+
+  function utteranceIndices(callbacks: ReturnType<typeof makeCallbacks>) {
+    return callbacks.onMessage.mock.calls
+      .map(([message]: [LTMessage]) => message)
+      .flatMap((message) =>
+        message.type === "transcription"
+          ? [["transcription", message.transcription.utterance_idx]]
+          : message.type === "translation"
+            ? [["translation", message.translation.utterance_idx]]
+            : [],
+      );
+  }
+
+  it("starts a new utterance after speech_stop", async () => {
+    const { ws, callbacks, transport } = await connectHeadless();
+
+    ws.receive({ type: "transcription", complete: words("hi"), partial: [] });
+    ws.receive({ type: "speech_stop", utterance_idx: 0 });
+    // Translation of the stopped utterance, still catching up.
+    ws.receive({ type: "translation", complete: words("hola"), partial: [] });
+    ws.receive({ type: "transcription", complete: [], partial: words("bye") });
+    ws.receive({ type: "translation", complete: words("adiós"), partial: [] });
+
+    expect(utteranceIndices(callbacks)).toEqual([
+      ["transcription", 0],
+      ["translation", 0],
+      ["transcription", 1],
+      ["translation", 1],
+    ]);
+
+    transport.disconnect();
+  });
+
+  it("follows the server's utterance indices when present", async () => {
+    const { ws, callbacks, transport } = await connectHeadless();
+
+    ws.receive({
+      type: "transcription",
+      complete: words("one"),
+      partial: [],
+      utterance_idx: 3,
+    });
+    ws.receive({ type: "transcription", complete: words("two"), partial: [] });
+    ws.receive({
+      type: "translation",
+      complete: words("uno"),
+      partial: [],
+      utterance_idx: 2,
+    });
+
+    expect(utteranceIndices(callbacks)).toEqual([
+      ["transcription", 3],
+      ["transcription", 3],
+      ["translation", 2],
+    ]);
+
+    transport.disconnect();
+  });
+
+  it("maps delimiter utterance indices onto the inferred ones", async () => {
+    const { ws, callbacks, transport } = await connectHeadless();
+    const delimiter = (utteranceIdx: number) => ({
+      type: "speech_delimiter",
+      time: 0,
+      transcription: { utterance_idx: utteranceIdx, word_idx: 0, char_idx: 0 },
+      translation: { utterance_idx: utteranceIdx, word_idx: 0, char_idx: 0 },
+    });
+    const delimiterIndices = () =>
+      callbacks.onMessage.mock.calls
+        .map(([message]: [LTMessage]) => message)
+        .flatMap((message) =>
+          message.type === "speech_delimiter"
+            ? [
+                [
+                  message.speech_delimiter.transcription.utterance_idx,
+                  message.speech_delimiter.translation.utterance_idx,
+                ],
+              ]
+            : [],
+        );
+
+    // The server counts from 7; the transport, lacking indices, from 0.
+    ws.receive({ type: "transcription", complete: words("hi"), partial: [] });
+    ws.receive(delimiter(7));
+    ws.receive({ type: "speech_stop", utterance_idx: 7 });
+    ws.receive({ type: "transcription", complete: words("bye"), partial: [] });
+    ws.receive(delimiter(8));
+    // A late delimiter for the first utterance.
+    ws.receive(delimiter(7));
+
+    expect(utteranceIndices(callbacks)).toEqual([
+      ["transcription", 0],
+      ["transcription", 8],
+    ]);
+    expect(delimiterIndices()).toEqual([
+      [0, 0],
+      [8, 8],
+      [0, 0],
+    ]);
+
+    transport.disconnect();
+  });
+
+  it("starts counting again on a new connection", async () => {
+    const { ws: first, transport } = await connectHeadless();
+    first.receive({ type: "speech_stop", utterance_idx: 4 });
+    transport.disconnect();
+
+    const callbacks = makeCallbacks();
+    const connecting = transport.connect(
+      { transport },
+      clientOptions,
+      callbacks,
+    );
+    const ws = MockWebSocket.instances.at(-1)!;
+    ws.open();
+    await connecting;
+    ws.receive({ type: "transcription", complete: words("hi"), partial: [] });
+
+    expect(utteranceIndices(callbacks)).toEqual([["transcription", 0]]);
+    transport.disconnect();
+  });
+});
+
+describe("WebSocketTransport binary audio", () => {
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+  });
+
+  function sentConfig(ws: MockWebSocket) {
+    const [data] = ws.send.mock.calls.find(
+      ([data]) => typeof data === "string" && data.includes('"config"'),
+    )!;
+    return JSON.parse(data);
+  }
+
+  it("offers binary audio in the config message", async () => {
+    const { ws, transport } = await connectHeadless();
+
+    transport.configure({ langIn: "en-US", langOut: "es-ES" });
+
+    expect(ws.binaryType).toBe("arraybuffer");
+    expect(sentConfig(ws).binary_audio).toBe(true);
+
+    transport.disconnect();
+  });
+
+  it("sends binary PCM frames once the server accepts", async () => {
+    const { ws, transport } = await connectHeadless();
+    transport.configure({ langIn: "en-US", langOut: "es-ES" });
+    ws.receive({ type: "ready", session_id: "s1", binary_audio: true });
+    ws.send.mockClear();
+
+    const samples = new Int16Array([0, 1000, -1000]);
+    transport.sendAudio(samples);
+
+    expect(ws.send).toHaveBeenCalledWith(samples);
+
+    transport.disconnect();
+  });
+
+  it("falls back to JSON audio when the server does not accept", async () => {
+    const { ws, transport } = await connectHeadless();
+    transport.configure({ langIn: "en-US", langOut: "es-ES" });
+    ws.receive({ type: "ready", session_id: "s1" });
+    ws.send.mockClear();
+
+    const samples = new Int16Array([7, -7]);
+    transport.sendAudio(samples);
+
+    expect(ws.send).toHaveBeenCalledWith(
+      JSON.stringify({ type: "audio", data: toBase64(samples) }),
+    );
+
+    transport.disconnect();
+  });
+
+  it("does not offer binary audio when disabled", async () => {
+    const { ws, transport } = await connectHeadless({}, { binaryAudio: false });
+    transport.configure({ langIn: "en-US", langOut: "es-ES" });
+    expect(sentConfig(ws).binary_audio).toBe(false);
+    ws.receive({ type: "ready", session_id: "s1", binary_audio: true });
+    ws.send.mockClear();
+
+    transport.sendAudio(new Int16Array([1]));
+
+    expect(typeof ws.send.mock.calls[0][0]).toBe("string");
+
+    transport.disconnect();
+  });
+
+  it("plays binary output frames", async () => {
+    const { ws, callbacks, transport } = await connectHeadless();
+
+    const samples = new Int16Array([5, -5, 10]);
+    ws.receiveBinary(samples.buffer);
+
+    expect(callbacks.onAudioData).toHaveBeenCalledWith(samples, 16000);
+
+    transport.disconnect();
+  });
+
+  it("copies misaligned binary output frames", async () => {
+    const { ws, callbacks, transport } = await connectHeadless();
+
+    const bytes = new Uint8Array(5);
+    new DataView(bytes.buffer).setInt16(1, -2, true);
+    new DataView(bytes.buffer).setInt16(3, 300, true);
+    ws.receiveBinary(bytes.subarray(1));
+
+    expect(callbacks.onAudioData).toHaveBeenCalledWith(
+      new Int16Array([-2, 300]),
+      16000,
+    );
+
+    transport.disconnect();
+  });
+
+  it("encodes only the viewed samples of a subarray", async () => {
+    const { ws, transport } = await connectHeadless();
+
+    const samples = new Int16Array([1, 2, 3, 4]);
+    transport.sendAudio(samples.subarray(1, 3));
+
+    expect(ws.send).toHaveBeenCalledWith(
+      JSON.stringify({
+        type: "audio",
+        data: toBase64(new Int16Array([2, 3])),
+      }),
+    );
+
+    transport.disconnect();
+  });
+});
+
+describe("WebSocketTransport keepalive", () => {
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function sentTypes(ws: MockWebSocket) {
+    return ws.send.mock.calls
+      .filter(([data]) => typeof data === "string")
+      .map(([data]) => JSON.parse(data).type);
+  }
+
+  it("sends heartbeat pings on the configured interval", async () => {
+    const { ws, transport } = await connectHeadless(
+      {},
+      { keepalive: { intervalMs: 1000 } },
+    );
+
+    jest.advanceTimersByTime(2500);
+
+    expect(sentTypes(ws)).toEqual(["ping", "ping"]);
+
+    transport.disconnect();
+    jest.advanceTimersByTime(2000);
+    expect(sentTypes(ws)).toEqual(["ping", "ping", "stop"]);
+  });
+
+  it("ignores a socket abandoned while connecting", async () => {
+    const transport = new WebSocketTransport({
+      headless: true,
+      webSocket: MockWebSocket as unknown as WebSocketConstructor,
+      keepalive: { intervalMs: 1000 },
+    });
+    transport
+      .connect({ transport }, clientOptions, makeCallbacks())
+      .catch(() => {});
+    const abandoned = MockWebSocket.instances.at(-1)!;
+    transport.disconnect();
+    expect(abandoned.close).toHaveBeenCalled();
+
+    const callbacks = makeCallbacks();
+    const connecting = transport.connect(
+      { transport },
+      clientOptions,
+      callbacks,
+    );
+    const ws = MockWebSocket.instances.at(-1)!;
+    ws.open();
+    await connecting;
+    ws.send.mockClear();
+
+    abandoned.open();
+    abandoned.onclose?.({ code: 1006 });
+    jest.advanceTimersByTime(2500);
+
+    expect(abandoned.send).not.toHaveBeenCalled();
+    expect(sentTypes(ws)).toEqual(["ping", "ping"]);
+    expect(callbacks.onConnectionStateChange).not.toHaveBeenCalledWith(
+      "disconnected",
+    );
+    transport.disconnect();
+  });
+
+  it("does not ping without keepalive", async () => {
+    const { ws, transport } = await connectHeadless();
+
+    jest.advanceTimersByTime(60000);
+
+    expect(ws.send).not.toHaveBeenCalled();
+    transport.disconnect();
+  });
+
+  it("reports a stall when the server goes silent while sending audio", async () => {
+    const { ws, callbacks, transport } = await connectHeadless(
+      {},
+      { keepalive: { intervalMs: 1000, stallTimeoutMs: 3000 } },
+    );
+    const onStateChange = callbacks.onConnectionStateChange as jest.Mock;
+
+    jest.advanceTimersByTime(2000);
+    ws.receive({ type: "pong" });
+    jest.advanceTimersByTime(2000);
+    transport.sendAudio(new Int16Array(4));
+    expect(callbacks.onError).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1500);
+    transport.sendAudio(new Int16Array(4));
+
+    expect(callbacks.onError).toHaveBeenCalledWith(
+      new NetworkError(
+        "Lost connection to translation server: no response received.",
+      ),
+    );
+    expect(onStateChange).toHaveBeenLastCalledWith("disconnected");
+    expect(ws.close).toHaveBeenCalled();
+
+    // The dead socket's late close event is not reported again.
+    ws.onclose?.({ code: 1006 });
+    expect(
+      onStateChange.mock.calls.filter(([state]) => state === "disconnected"),
+    ).toHaveLength(1);
+
+    transport.disconnect();
+  });
+
+  it("does not report a stall while no audio is sent", async () => {
+    const { callbacks, transport } = await connectHeadless(
+      {},
+      { keepalive: { intervalMs: 1000, stallTimeoutMs: 3000 } },
+    );
+
+    jest.advanceTimersByTime(10000);
+
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    transport.disconnect();
+  });
+});
+
+describe("WebSocketTransport authentication", () => {
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+  });
+
+  async function open(
+    credentials: Partial<SanasTranslationClientOptions>,
+    transportOptions: WebSocketTransportOptions = {},
+  ) {
+    const transport = new WebSocketTransport({
+      headless: true,
+      webSocket: MockWebSocket as unknown as WebSocketConstructor,
+      ...transportOptions,
+    });
+    const connecting = transport.connect(
+      { transport },
+      { endpoint: "https://lt.test.com", ...credentials },
+      makeCallbacks(),
+    );
+    const ws = MockWebSocket.instances.at(-1)!;
+    ws.open();
+    await connecting;
+    return { transport, ws };
+  }
+
+  it("sends credentials in a first message, not the URL", async () => {
+    const { transport, ws } = await open({ accessToken: "session-token" });
+
+    expect(ws.url).toBe("wss://lt.test.com/v2/consecutive");
+    expect(ws.send.mock.calls.map(([data]) => JSON.parse(data))).toEqual([
+      { type: "auth", token: "session-token" },
+    ]);
+
+    transport.configure({ langIn: "en-US", langOut: "es-ES" });
+    expect(JSON.parse(ws.send.mock.calls[1][0]).type).toBe("config");
+    transport.disconnect();
+  });
+
+  it("puts credentials in the query string when asked to", async () => {
+    const { transport, ws } = await open(
+      { apiKey: "test-key" },
+      { authentication: "query" },
+    );
+
+    expect(ws.url).toBe("wss://lt.test.com/v2/consecutive?api_key=test-key");
+    expect(ws.send).not.toHaveBeenCalled();
+    transport.disconnect();
+  });
+});
+
+describe("WebSocketTransport track replacement", () => {
+  class MockSourceNode {
+    connect = jest.fn();
+    disconnect = jest.fn();
+    constructor(readonly stream: { tracks: unknown[] }) {}
+  }
+
+  class MockAudioContext {
+    currentTime = 0;
+    destination = {};
+    sources: MockSourceNode[] = [];
+    constructor(readonly options: { sampleRate?: number } = {}) {}
+    get sampleRate() {
+      return this.options.sampleRate ?? 48000;
+    }
+    resume = jest.fn(async () => {});
+    close = jest.fn(async () => {});
+    createMediaStreamDestination = jest.fn(() => ({ stream: {} }));
+    createMediaStreamSource = jest.fn((stream: { tracks: unknown[] }) => {
+      const node = new MockSourceNode(stream);
+      this.sources.push(node);
+      return node;
+    });
+  }
+
+  const globals = globalThis as unknown as Record<string, unknown>;
+  let contexts: MockAudioContext[];
+
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+    contexts = [];
+    globals.AudioContext = class extends MockAudioContext {
+      constructor(options?: { sampleRate?: number }) {
+        super(options);
+        contexts.push(this);
+      }
+    };
+    globals.MediaStream = class {
+      constructor(readonly tracks: unknown[]) {}
+    };
+  });
+
+  afterEach(() => {
+    delete globals.AudioContext;
+    delete globals.MediaStream;
+  });
+
+  it("rewires the worklet input without reconnecting", async () => {
+    const oldTrack = { kind: "audio", enabled: true };
+    const newTrack = { kind: "audio", enabled: true };
+    const transport = new WebSocketTransport({
+      webSocket: MockWebSocket as unknown as WebSocketConstructor,
+    });
+    const connecting = transport.connect(
+      { transport, audioTrack: oldTrack as unknown as MediaStreamTrack },
+      clientOptions,
+      makeCallbacks(),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    MockWebSocket.instances[0].open();
+    await connecting;
+
+    await transport.replaceAudioTrack(newTrack as unknown as MediaStreamTrack);
+
+    const [oldSource, newSource] = contexts[0].sources;
+    expect(oldSource.disconnect).toHaveBeenCalled();
+    expect(newSource.stream.tracks).toEqual([newTrack]);
+    expect(newSource.connect).toHaveBeenCalledTimes(1);
+    expect(createPcmWorkletNode).toHaveBeenCalledTimes(1);
+    expect(MockWebSocket.instances).toHaveLength(1);
+    transport.disconnect();
+  });
+
+  it("sends captured frames and reports when they were captured", async () => {
+    const onCaptureFrame = jest.fn();
+    const transport = new WebSocketTransport({
+      webSocket: MockWebSocket as unknown as WebSocketConstructor,
+      binaryAudio: false,
+      frameMs: 40,
+      onCaptureFrame,
+    });
+    const connecting = transport.connect(
+      { transport, audioTrack: { kind: "audio" } as MediaStreamTrack },
+      clientOptions,
+      makeCallbacks(),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+    await connecting;
+    ws.send.mockClear();
+
+    expect(createPcmWorkletNode).toHaveBeenLastCalledWith(contexts[0], {
+      sampleRate: 16000,
+      frameMs: 40,
+    });
+    const { results } = jest.mocked(createPcmWorkletNode).mock;
+    const worklet = await results[results.length - 1].value;
+    const samples = new Int16Array(640).fill(7);
+    worklet.port.onmessage({ data: { samples, time: 1.5 } });
+
+    expect(JSON.parse(ws.send.mock.calls[0][0])).toEqual({
+      type: "audio",
+      data: toBase64(samples),
+    });
+    const [frame] = onCaptureFrame.mock.calls[0];
+    expect(frame.samples).toBe(samples);
+    // Captured 1.5s into the context's clock, which started with connect().
+    expect(frame.timestamp).toBeCloseTo(1.5, 1);
+    transport.disconnect();
+  });
+
+  it("rejects on a headless transport", async () => {
+    const { transport } = await connectHeadless();
+
+    await expect(
+      transport.replaceAudioTrack({} as MediaStreamTrack),
+    ).rejects.toThrow("Headless transports take audio through sendAudio().");
+    transport.disconnect();
+  });
+});
+
+describe("WebSocketTransport jitter buffer", () => {
+  class MockBufferSource {
+    buffer: { duration: number } | null = null;
+    playbackRate = { value: 1 };
+    connect = jest.fn();
+    start = jest.fn();
+    stop = jest.fn();
+  }
+
+  // The playback context runs at the device's rate.
+  let deviceRate: number;
+
+  class MockAudioContext {
+    currentTime = 0;
+    destination = {};
+    sources: MockBufferSource[] = [];
+    sampleRate = deviceRate;
+    resume = jest.fn(async () => {});
+    close = jest.fn(async () => {});
+    createMediaStreamDestination = jest.fn(() => ({ stream: {} }));
+    createBuffer = jest.fn(
+      (_channels: number, length: number, sampleRate: number) => {
+        const data = new Float32Array(length);
+        return { duration: length / sampleRate, getChannelData: () => data };
+      },
+    );
+    createBufferSource = jest.fn(() => {
+      const source = new MockBufferSource();
+      this.sources.push(source);
+      return source;
+    });
+  }
+
+  const globals = globalThis as unknown as Record<string, unknown>;
+  let contexts: MockAudioContext[];
+
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+    contexts = [];
+    deviceRate = 16000;
+    globals.AudioContext = class extends MockAudioContext {
+      constructor() {
+        super();
+        contexts.push(this);
+      }
+    };
+  });
+
+  afterEach(() => {
+    delete globals.AudioContext;
+  });
+
+  // 0.1s of audio at 16kHz
+  const chunk = () => toBase64(new Int16Array(1600));
+
+  async function connect(
+    transportOptions: WebSocketTransportOptions = {},
+    options: Partial<ConnectOptions> = {},
+  ) {
+    const transport = new WebSocketTransport({
+      webSocket: MockWebSocket as unknown as WebSocketConstructor,
+      ...transportOptions,
+    });
+    const callbacks = makeCallbacks();
+    const connecting = transport.connect(
+      { transport, textOnly: true, ...options },
+      clientOptions,
+      callbacks,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+    await connecting;
+    return { transport, callbacks, ws, ctx: contexts[0] };
+  }
+
+  it("starts playback after the target latency and plays chunks back to back", async () => {
+    const { transport, callbacks, ws, ctx } = await connect({
+      jitterBuffer: { targetLatencyMs: 50 },
+    });
+
+    ws.receive({ type: "audio", data: chunk() });
+    ws.receive({ type: "audio", data: chunk() });
+
+    const starts = ctx.sources.map((source) => source.start.mock.calls[0][0]);
+    expect(starts[0]).toBeCloseTo(0.05);
+    expect(starts[1]).toBeCloseTo(0.15);
+    expect(callbacks.onAudioData).toHaveBeenCalledTimes(2);
+    expect(transport.playbackStats).toEqual({
+      latencyMs: expect.closeTo(250),
+      underruns: 0,
+      overruns: 0,
+      droppedMs: 0,
+      compressedMs: 0,
+    });
+    transport.disconnect();
+  });
+
+  it("counts an underrun when playback runs dry mid-speech", async () => {
+    const { transport, ws, ctx } = await connect();
+
+    ws.receive({ type: "audio", data: chunk() });
+    ctx.currentTime = 0.3;
+    ws.receive({ type: "audio", data: chunk() });
+    // A long pause is silence between utterances, not an underrun.
+    ctx.currentTime = 2;
+    ws.receive({ type: "audio", data: chunk() });
+
+    expect(ctx.sources[1].start.mock.calls[0][0]).toBeCloseTo(0.38);
+    expect(transport.playbackStats?.underruns).toBe(1);
+    transport.disconnect();
+  });
+
+  it("skips stale queued audio when a burst exceeds the maximum latency", async () => {
+    const { transport, callbacks, ws, ctx } = await connect({
+      jitterBuffer: { targetLatencyMs: 100, maxLatencyMs: 320 },
+    });
+
+    ws.receive({ type: "audio", data: chunk() });
+    ws.receive({ type: "audio", data: chunk() });
+    ctx.currentTime = 0.15;
+    ws.receive({ type: "audio", data: chunk() });
+    ws.receive({ type: "audio", data: chunk() });
+
+    // The first chunk is playing; the two queued behind it are cancelled.
+    expect(ctx.sources[0].stop).not.toHaveBeenCalled();
+    expect(ctx.sources[1].stop).toHaveBeenCalled();
+    expect(ctx.sources[2].stop).toHaveBeenCalled();
+    expect(ctx.sources[3].start.mock.calls[0][0]).toBeCloseTo(0.2);
+    expect(transport.playbackStats).toMatchObject({
+      latencyMs: expect.closeTo(150),
+      overruns: 1,
+      droppedMs: expect.closeTo(200),
+    });
+
+    // A delimiter at the end of the skipped audio plays when the kept audio
+    // starts, in seconds since connect().
+    ws.receive({
+      type: "speech_delimiter",
+      time: 0.3,
+      transcription: { utterance_idx: 0, word_idx: 0, char_idx: 0 },
+      translation: { utterance_idx: 0, word_idx: 0, char_idx: 0 },
+    });
+    const delimiter = callbacks.onMessage.mock.calls.at(-1)[0];
+    expect(delimiter.speech_delimiter.time).toBeCloseTo(0.2, 1);
+    transport.disconnect();
+  });
+
+  it("plays stale audio faster until back at the target latency", async () => {
+    const { transport, ws, ctx } = await connect({
+      jitterBuffer: {
+        targetLatencyMs: 100,
+        maxLatencyMs: 320,
+        catchUp: "compress",
+      },
+    });
+
+    for (let i = 0; i < 3; i++) ws.receive({ type: "audio", data: chunk() });
+
+    const rates = ctx.sources.map((source) => source.playbackRate.value);
+    expect(rates).toEqual([1, 1, 1.25]);
+    expect(ctx.sources[2].start.mock.calls[0][0]).toBeCloseTo(0.3);
+    expect(transport.playbackStats).toMatchObject({
+      latencyMs: expect.closeTo(380),
+      overruns: 1,
+      droppedMs: 0,
+      compressedMs: expect.closeTo(20),
+    });
+    transport.disconnect();
+  });
+
+  it("resamples playback when the device runs at another rate", async () => {
+    deviceRate = 48000;
+    const { transport, callbacks, ws, ctx } = await connect({
+      jitterBuffer: { targetLatencyMs: 50 },
+    });
+
+    ws.receive({ type: "audio", data: chunk() });
+    ws.receive({ type: "audio", data: chunk() });
+
+    // The app still gets the server's audio at the output rate.
+    expect(callbacks.onAudioData).toHaveBeenCalledWith(
+      expect.any(Int16Array),
+      16000,
+    );
+    const [first, second] = ctx.createBuffer.mock.calls;
+    expect(first[2]).toBe(48000);
+    // The resampler holds back about 1 ms, then keeps pace with the input.
+    expect(first[1]).toBeGreaterThan(4700);
+    expect(second[1]).toBe(4800);
+    expect(ctx.sources[1].start.mock.calls[0][0]).toBeCloseTo(
+      0.05 + first[1] / 48000,
+    );
+    transport.disconnect();
+  });
+
+  it("reports no playback stats when headless", async () => {
+    const { transport } = await connectHeadless();
+
+    expect(transport.playbackStats).toBeNull();
+    transport.disconnect();
+  });
+});
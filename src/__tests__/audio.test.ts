@@ -0,0 +1,62 @@
+import { resample, Resampler } from "../audio";
+
+function tone(frequency: number, sampleRate: number, length: number) {
+  return Float32Array.from({ length }, (_, i) =>
+    Math.sin((2 * Math.PI * frequency * i) / sampleRate),
+  );
+}
+
+function peak(samples: Float32Array, from: number, to: number) {
+  let max = 0;
+  for (let i = from; i < to; i++) max = Math.max(max, Math.abs(samples[i]));
+  return max;
+}
+
+describe("resample", () => {
+  it("keeps the pitch of a tone across rates", () => {
+    const output = resample(tone(440, 44100, 4410), 44100, 16000);
+
+    expect(output).toHaveLength(1600);
+    const expected = tone(440, 16000, 1600);
+    const error = output.map((sample, i) => sample - expected[i]);
+    expect(peak(error, 100, 1500)).toBeLessThan(1e-3);
+  });
+
+  it("upsamples", () => {
+    const output = resample(tone(440, 16000, 1600), 16000, 48000);
+
+    expect(output).toHaveLength(4800);
+    const expected = tone(440, 48000, 4800);
+    const error = output.map((sample, i) => sample - expected[i]);
+    expect(peak(error, 300, 4500)).toBeLessThan(1e-3);
+  });
+
+  it("filters out frequencies above the new Nyquist frequency", () => {
+    const output = resample(tone(7000, 48000, 4800), 48000, 8000);
+
+    expect(peak(output, 100, 700)).toBeLessThan(1e-3);
+  });
+
+  it("returns the input when the rates match", () => {
+    const input = tone(440, 16000, 160);
+
+    expect(resample(input, 16000, 16000)).toBe(input);
+  });
+});
+
+describe("Resampler", () => {
+  it("converts a stream chunk by chunk like a whole recording", () => {
+    const input = tone(440, 48000, 4800);
+    const resampler = new Resampler(48000, 16000);
+
+    const chunks: number[] = [];
+    for (let i = 0; i < input.length; i += 128) {
+      chunks.push(...resampler.process(input.subarray(i, i + 128)));
+    }
+    chunks.push(...resampler.flush());
+
+    const whole = resample(input, 48000, 16000);
+    expect(chunks.length).toBeGreaterThanOrEqual(whole.length);
+    expect(Float32Array.from(chunks.slice(0, whole.length))).toEqual(whole);
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  audioSourceFromFile,
+  audioSourceFromPcm,
+  decodeWav,
+} from "../audioSource";
+
+function encodeWav(
+  samples: Int16Array,
+  sampleRate: number,
+  channels = 1,
+): ArrayBuffer {
+  const dataBytes = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataBytes);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, "data");
+  view.setUint32(40, dataBytes, true);
+  new Int16Array(buffer, 44).set(samples);
+
+  return buffer;
+}
+
+async function collect(source: AsyncIterable<Int16Array>) {
+  const chunks: Int16Array[] = [];
+  for await (const chunk of source) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("audioSourceFromPcm", () => {
+  it("yields fixed-size chunks and ends with the buffer", async () => {
+    const source = audioSourceFromPcm(new Int16Array(50), 1000, {
+      chunkMs: 20,
+      realtime: false,
+    });
+
+    const chunks = await collect(source);
+
+    expect(source.sampleRate).toBe(1000);
+    expect(chunks.map((c) => c.length)).toEqual([20, 20, 10]);
+  });
+
+  it("drops the half sample of an odd-length buffer", async () => {
+    const source = audioSourceFromPcm(new ArrayBuffer(41), 1000, {
+      chunkMs: 20,
+      realtime: false,
+    });
+
+    const chunks = await collect(source);
+
+    expect(chunks.map((c) => c.length)).toEqual([20]);
+  });
+
+  it("continues where a previous iteration stopped", async () => {
+    const samples = Int16Array.from({ length: 40 }, (_, i) => i);
+    const source = audioSourceFromPcm(samples, 1000, {
+      chunkMs: 10,
+      realtime: false,
+    });
+
+    for await (const chunk of source) {
+      expect(chunk[0]).toBe(0);
+      break;
+    }
+
+    const rest = await collect(source);
+    expect(rest.map((c) => c[0])).toEqual([10, 20, 30]);
+  });
+
+  it("stops yielding once closed", async () => {
+    const source = audioSourceFromPcm(new Int16Array(100), 1000, {
+      chunkMs: 10,
+      realtime: false,
+    });
+
+    const chunks: Int16Array[] = [];
+    for await (const chunk of source) {
+      chunks.push(chunk);
+      source.close();
+    }
+
+    expect(chunks).toHaveLength(1);
+  });
+
+  it("paces chunks in real time by default", async () => {
+    const source = audioSourceFromPcm(new Int16Array(60), 1000, {
+      chunkMs: 20,
+    });
+
+    const start = performance.now();
+    await collect(source);
+
+    expect(performance.now() - start).toBeGreaterThanOrEqual(35);
+  });
+});
+
+describe("decodeWav", () => {
+  it("reads mono 16-bit PCM", () => {
+    const samples = new Int16Array([1, -2, 3, -4]);
+    const decoded = decodeWav(encodeWav(samples, 16000));
+
+    expect(decoded).toEqual({ samples, sampleRate: 16000 });
+  });
+
+  it("downmixes stereo to mono", () => {
+    const interleaved = new Int16Array([100, 300, -100, -300]);
+    const decoded = decodeWav(encodeWav(interleaved, 8000, 2));
+
+    expect(decoded?.samples).toEqual(new Int16Array([200, -200]));
+    expect(decoded?.sampleRate).toBe(8000);
+  });
+
+  it("returns null for non-WAV data", () => {
+    expect(decodeWav(new ArrayBuffer(64))).toBeNull();
+  });
+});
+
+describe("audioSourceFromFile", () => {
+  it("reads a WAV file at the requested rate without Web Audio", async () => {
+    const samples = Int16Array.from({ length: 32 }, (_, i) => i);
+    const source = await audioSourceFromFile(encodeWav(samples, 16000), {
+      sampleRate: 16000,
+      realtime: false,
+    });
+
+    const chunks = await collect(source);
+    const all = new Int16Array(chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      all.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    expect(all).toEqual(samples);
+  });
+
+  it("resamples a WAV file at another rate without Web Audio", async () => {
+    const tone = Int16Array.from({ length: 4410 }, (_, i) =>
+      Math.round(10000 * Math.sin((2 * Math.PI * 440 * i) / 44100)),
+    );
+    const source = await audioSourceFromFile(encodeWav(tone, 44100), {
+      sampleRate: 16000,
+      realtime: false,
+    });
+
+    const chunks = await collect(source);
+    const all = Int16Array.from(chunks.flatMap((chunk) => [...chunk]));
+    expect(all).toHaveLength(1600);
+    // Away from the edges, the same 440 Hz tone at the new rate.
+    for (let i = 100; i < 1500; i += 50) {
+      const expected = 10000 * Math.sin((2 * Math.PI * 440 * i) / 16000);
+      expect(Math.abs(all[i] - expected)).toBeLessThan(20);
+    }
+  });
+
+  it("requires Web Audio to decode other formats", async () => {
+    await expect(
+      audioSourceFromFile(new Uint8Array([1, 2, 3, 4]).buffer, {
+        sampleRate: 16000,
+      }),
+    ).rejects.toThrow("without Web Audio");
+  });
+});
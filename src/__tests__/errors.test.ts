@@ -0,0 +1,88 @@
+import {
+  AudioSourceError,
+  AuthError,
+  createError,
+  errorFromStatus,
+  MicrophoneError,
+  NetworkError,
+  PermissionError,
+  ProtocolError,
+  SanasError,
+  ServerError,
+  TimeoutError,
+} from "../errors";
+
+describe("errors", () => {
+  it("gives each subclass its code and recoverable default", () => {
+    const cases: [SanasError, string, boolean][] = [
+      [new AuthError("a"), "auth", false],
+      [new PermissionError("a"), "permission", false],
+      [new NetworkError("a"), "network", true],
+      [new ProtocolError("a"), "protocol", false],
+      [new ServerError("a"), "server", true],
+      [new TimeoutError("a"), "timeout", true],
+      [new MicrophoneError("a"), "microphone", false],
+      [new AudioSourceError("a"), "audio-source", false],
+    ];
+
+    for (const [error, code, recoverable] of cases) {
+      expect(error).toBeInstanceOf(SanasError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.code).toBe(code);
+      expect(error.recoverable).toBe(recoverable);
+    }
+  });
+
+  it("lets options override recoverable", () => {
+    expect(new ServerError("a", { recoverable: false }).recoverable).toBe(
+      false,
+    );
+  });
+
+  it("classifies HTTP statuses", () => {
+    expect(errorFromStatus(401, "a")).toBeInstanceOf(AuthError);
+    expect(errorFromStatus(403, "a")).toBeInstanceOf(PermissionError);
+    expect(errorFromStatus(408, "a")).toBeInstanceOf(TimeoutError);
+    expect(errorFromStatus(400, "a")).toBeInstanceOf(ProtocolError);
+    expect(errorFromStatus(503, "a")).toBeInstanceOf(ServerError);
+    expect(errorFromStatus(undefined, "a")).toBeInstanceOf(ServerError);
+    expect(errorFromStatus(401, "a").status).toBe(401);
+  });
+
+  it("round-trips through a stream message", () => {
+    const error = new AuthError("Expired", {
+      status: 401,
+      cause: new Error("jwt expired"),
+    });
+
+    const message = error.toStreamMessage();
+    expect(message).toEqual({
+      type: "error",
+      message: "Expired",
+      code: "auth",
+      recoverable: false,
+      status: 401,
+      cause: "jwt expired",
+    });
+
+    const rebuilt = SanasError.fromStreamMessage(message);
+    expect(rebuilt).toBeInstanceOf(AuthError);
+    expect(rebuilt).toMatchObject({
+      message: "Expired",
+      code: "auth",
+      recoverable: false,
+      status: 401,
+      cause: "jwt expired",
+    });
+  });
+
+  it("treats an uncoded stream message as a server error", () => {
+    const error = SanasError.fromStreamMessage({
+      type: "error",
+      message: "Oops",
+    });
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect(createError("network", "x")).toBeInstanceOf(NetworkError);
+  });
+});
@@ -0,0 +1,573 @@
+import { randomBytes } from "crypto";
+import { connect as connectSocket, Socket } from "net";
+
+import { audioSourceFromPcm } from "../audioSource";
+import { FakeLTServer, startFakeLTServer } from "../fakeServer";
+import { encodeFrame, FrameParser, Opcode } from "../fakeServer/webSocket";
+import { SanasTranslationClient } from "../SanasTranslationClient";
+import { createSessionToken } from "../server";
+import { TranslationState } from "../TranslationState";
+import { AccessTokenProvider } from "../types";
+import {
+  WebSocketConstructor,
+  WebSocketTransport,
+} from "../WebSocketTransport";
+
+// --- Minimal browser-style WebSocket client over net, for Node 20 ---
+
+class NodeWebSocket {
+  static instances: NodeWebSocket[] = [];
+
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  onmessage: ((event: { data: string | ArrayBuffer }) => void) | null = null;
+
+  private socket: Socket;
+  private parser = new FrameParser();
+  private handshake = Buffer.alloc(0);
+
+  constructor(url: string) {
+    NodeWebSocket.instances.push(this);
+    const { hostname, port, pathname, search } = new URL(url);
+    this.socket = connectSocket(Number(port), hostname, () => {
+      this.socket.write(
+        `GET ${pathname}${search} HTTP/1.1\r\n` +
+          `Host: ${hostname}:${port}\r\n` +
+          "Upgrade: websocket\r\n" +
+          "Connection: Upgrade\r\n" +
+          `Sec-WebSocket-Key: ${randomBytes(16).toString("base64")}\r\n` +
+          "Sec-WebSocket-Version: 13\r\n\r\n",
+      );
+    });
+    this.socket.on("data", (chunk: Buffer) => this.handleData(chunk));
+    this.socket.on("error", () => this.onerror?.());
+    this.socket.on("close", () => this.finish(1006));
+  }
+
+  binaryType = "arraybuffer";
+  readonly sent: (string | ArrayBufferView)[] = [];
+
+  send(data: string | ArrayBufferView): void {
+    this.sent.push(data);
+    const frame =
+      typeof data === "string"
+        ? encodeFrame(Opcode.Text, Buffer.from(data), true)
+        : encodeFrame(
+            Opcode.Binary,
+            Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+            true,
+          );
+    this.socket.write(frame);
+  }
+
+  close(): void {
+    if (this.readyState !== 1) return;
+    this.readyState = 2;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(1000, 0);
+    this.socket.write(encodeFrame(Opcode.Close, payload, true));
+  }
+
+  private handleData(chunk: Buffer): void {
+    if (this.readyState === 0) {
+      this.handshake = Buffer.concat([this.handshake, chunk]);
+      const end = this.handshake.indexOf("\r\n\r\n");
+      if (end < 0) return;
+      if (!this.handshake.toString("utf8", 0, end).includes(" 101 ")) {
+        this.socket.destroy();
+        return;
+      }
+      this.readyState = 1;
+      this.onopen?.();
+      chunk = this.handshake.subarray(end + 4);
+    }
+
+    for (const frame of this.parser.push(chunk)) {
+      if (frame.opcode === Opcode.Text) {
+        this.onmessage?.({ data: frame.payload.toString("utf8") });
+      } else if (frame.opcode === Opcode.Binary) {
+        this.onmessage?.({ data: new Uint8Array(frame.payload).buffer });
+      } else if (frame.opcode === Opcode.Close) {
+        const code =
+          frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : 1005;
+        this.socket.end();
+        this.finish(code);
+      }
+    }
+  }
+
+  private finish(code: number): void {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.({ code });
+  }
+}
+
+// --- Helpers ---
+
+const clients: SanasTranslationClient[] = [];
+
+function createClient(
+  server: FakeLTServer,
+  options: {
+    apiKey?: string;
+    accessToken?: AccessTokenProvider;
+    onAudioData?: (samples: Int16Array) => void;
+  } = {},
+) {
+  const onError = jest.fn();
+  const state = new TranslationState({ onError });
+  const client = new SanasTranslationClient(state, {
+    ...(options.accessToken
+      ? { accessToken: options.accessToken }
+      : { apiKey: options.apiKey ?? "test-key" }),
+    endpoint: server.url,
+    headless: true,
+    onAudioData: options.onAudioData,
+  });
+  clients.push(client);
+  return { client, state, onError };
+}
+
+function createTransport() {
+  return new WebSocketTransport({
+    headless: true,
+    webSocket: NodeWebSocket as unknown as WebSocketConstructor,
+  });
+}
+
+function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() > deadline) reject(new Error("Timed out"));
+      else setTimeout(check, 5);
+    };
+    check();
+  });
+}
+
+// --- Tests ---
+
+describe("startFakeLTServer", () => {
+  let server: FakeLTServer;
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      client.disconnect();
+    }
+    await server.close();
+  });
+
+  describe("languages", () => {
+    it("lists the configured languages", async () => {
+      server = await startFakeLTServer({
+        languages: [
+          {
+            longCode: "en-US",
+            shortCode: "en",
+            name: "English",
+            support: "stable",
+          },
+        ],
+      });
+
+      const languages = await SanasTranslationClient.fetchLanguages({
+        apiKey: "test-key",
+        endpoint: server.url,
+      });
+
+      expect(languages).toEqual([
+        {
+          longCode: "en-US",
+          shortCode: "en",
+          name: "English",
+          support: "stable",
+        },
+      ]);
+    });
+
+    it("rejects unknown API keys", async () => {
+      server = await startFakeLTServer({ apiKeys: ["good-key"] });
+
+      await expect(
+        SanasTranslationClient.fetchLanguages({
+          apiKey: "bad-key",
+          endpoint: server.url,
+        }),
+      ).rejects.toThrow("Authentication failed.");
+    });
+
+    it("accepts allowed access tokens", async () => {
+      server = await startFakeLTServer({ accessTokens: ["good-token"] });
+
+      const languages = await SanasTranslationClient.fetchLanguages({
+        accessToken: "good-token",
+        endpoint: server.url,
+      });
+
+      expect(languages.length).toBeGreaterThan(0);
+    });
+
+    it("retries once with a refreshed token", async () => {
+      server = await startFakeLTServer({ accessTokens: ["fresh-token"] });
+      const accessToken = jest.fn(({ forceRefresh }) =>
+        forceRefresh ? "fresh-token" : "stale-token",
+      );
+
+      const languages = await SanasTranslationClient.fetchLanguages({
+        accessToken,
+        endpoint: server.url,
+      });
+
+      expect(languages.length).toBeGreaterThan(0);
+      expect(accessToken.mock.calls).toEqual([
+        [{ forceRefresh: false }],
+        [{ forceRefresh: true }],
+      ]);
+    });
+  });
+
+  describe("session tokens", () => {
+    it("opens a session with a minted token", async () => {
+      server = await startFakeLTServer({
+        apiKeys: ["good-key"],
+        transcript: "hello",
+        wordMs: 100,
+      });
+      const sessionToken = await createSessionToken({
+        apiKey: "good-key",
+        endpoint: server.url,
+      });
+      const { client, state } = createClient(server, {
+        accessToken: () => sessionToken,
+      });
+
+      await client.connect({ transport: createTransport() });
+      await client.reset({ langIn: "en-US", langOut: "es-ES" });
+      client.sendAudio(new Int16Array(1600));
+      await waitFor(() => state.getState().utterances.length > 0);
+
+      expect(sessionToken.token).toMatch(/^st_/);
+      expect(sessionToken.expiresAt).toBeGreaterThan(Date.now());
+      expect(sessionToken.scopes).toEqual(["translate", "languages"]);
+    });
+
+    it("limits tokens to their scopes", async () => {
+      server = await startFakeLTServer();
+      const { token } = await createSessionToken({
+        apiKey: "test-key",
+        endpoint: server.url,
+        scopes: ["translate"],
+      });
+
+      await expect(
+        SanasTranslationClient.fetchLanguages({
+          accessToken: token,
+          endpoint: server.url,
+        }),
+      ).rejects.toThrow("Authentication failed.");
+    });
+
+    it("rejects expired tokens", async () => {
+      server = await startFakeLTServer();
+      const sessionToken = await createSessionToken({
+        apiKey: "test-key",
+        endpoint: server.url,
+        ttlSeconds: 0,
+      });
+      const { client, state, onError } = createClient(server, {
+        accessToken: () => sessionToken,
+      });
+
+      await client.connect({ transport: createTransport() });
+      await waitFor(() => state.connectionState === "disconnected");
+
+      expect(onError).toHaveBeenCalledWith(
+        "Authentication failed. Please sign in again.",
+        expect.objectContaining({ code: "auth" }),
+      );
+    });
+
+    it("mints tokens only from valid API keys", async () => {
+      server = await startFakeLTServer({ apiKeys: ["good-key"] });
+
+      await expect(
+        createSessionToken({ apiKey: "bad-key", endpoint: server.url }),
+      ).rejects.toThrow("Invalid API key.");
+    });
+  });
+
+  describe("WebSocket sessions", () => {
+    it("translates streamed audio end to end", async () => {
+      server = await startFakeLTServer({
+        transcript: "hello world",
+        wordMs: 100,
+        wordsPerUtterance: 2,
+      });
+      const audio: Int16Array[] = [];
+      const { client, state } = createClient(server, {
+        onAudioData: (samples) => audio.push(samples),
+      });
+
+      await client.connect({ transport: createTransport() });
+      expect(state.connectionState).toBe("connected");
+      await client.reset({ langIn: "en-US", langOut: "es-ES" });
+
+      client.sendAudio(new Int16Array(1600 * 2));
+      await waitFor(
+        () => state.getState().utterances[0]?.translation.complete.length === 2,
+      );
+
+      const [utterance] = state.getState().utterances;
+      expect(utterance.transcription.complete.map((w) => w.word)).toEqual([
+        "hello",
+        "world",
+      ]);
+      expect(utterance.translation.complete.map((w) => w.word)).toEqual([
+        "es:hello",
+        "es:world",
+      ]);
+      expect(audio.length).toBe(2);
+      expect(audio[0].length).toBe(1600);
+    });
+
+    it("splits the session into utterances", async () => {
+      server = await startFakeLTServer({
+        transcript: "one two three four",
+        wordMs: 100,
+        wordsPerUtterance: 2,
+      });
+      const { client, state } = createClient(server);
+
+      await client.connect({ transport: createTransport() });
+      await client.reset({ langIn: "en-US", langOut: "es-ES" });
+      client.sendAudio(new Int16Array(1600 * 4));
+      await waitFor(
+        () => state.getState().utterances[1]?.translation.complete.length === 2,
+      );
+
+      const utterances = state.getState().utterances;
+      expect(utterances).toHaveLength(2);
+      expect(utterances[0].transcription.complete.map((w) => w.word)).toEqual([
+        "one",
+        "two",
+      ]);
+      expect(utterances[1].translation.complete.map((w) => w.word)).toEqual([
+        "es:three",
+        "es:four",
+      ]);
+    });
+
+    it("ends the utterance when push-to-talk stops", async () => {
+      server = await startFakeLTServer({
+        transcript: "one two three four",
+        wordMs: 100,
+        wordsPerUtterance: 4,
+      });
+      const { client, state } = createClient(server);
+
+      await client.connect({ transport: createTransport(), pushToTalk: true });
+      await client.reset({ langIn: "en-US", langOut: "es-ES" });
+      client.startTalking();
+      client.sendAudio(new Int16Array(1600 * 2));
+      client.stopTalking();
+      client.startTalking();
+      client.sendAudio(new Int16Array(1600 * 2));
+      await waitFor(
+        () => state.getState().utterances[1]?.translation.complete.length === 2,
+      );
+
+      const utterances = state.getState().utterances;
+      expect(utterances[0].transcription.complete.map((w) => w.word)).toEqual([
+        "one",
+        "two",
+      ]);
+    });
+
+    it("translates typed text", async () => {
+      server = await startFakeLTServer({ wordMs: 100 });
+      const audio: Int16Array[] = [];
+      const { client, state } = createClient(server, {
+        onAudioData: (samples) => audio.push(samples),
+      });
+
+      await client.connect({ transport: createTransport(), textOnly: true });
+      await client.reset({ langIn: "en-US", langOut: "es-ES" });
+      client.sendText("good morning");
+      client.sendText("thank you", { synthesize: true });
+      await waitFor(() => state.getState().utterances.length === 2);
+
+      const utterances = state.getState().utterances;
+      expect(utterances.map((utterance) => utterance.typed)).toEqual([
+        true,
+        true,
+      ]);
+      expect(utterances[0].translation.complete.map((w) => w.word)).toEqual([
+        "es:good",
+        "es:morning",
+      ]);
+      // Only the synthesized text is voiced; the other is marked spoken anyway.
+      await waitFor(() => audio.length === 2);
+      await waitFor(
+        () =>
+          state.getState().utterances[0].translation.unspokenText.length === 0,
+      );
+    });
+
+    it("exchanges audio as binary frames when both sides support it", async () => {
+      server = await startFakeLTServer({ wordMs: 100 });
+      const audio: Int16Array[] = [];
+      const { client } = createClient(server, {
+        onAudioData: (samples) => audio.push(samples),
+      });
+
+      await client.connect({ transport: createTransport() });
+      await client.reset({ langIn: "en-US", langOut: "es-ES" });
+      client.sendAudio(new Int16Array(1600));
+      await waitFor(() => audio.length === 1);
+
+      const ws = NodeWebSocket.instances.at(-1)!;
+      expect(ws.sent.at(-1)).toBeInstanceOf(Int16Array);
+      expect(audio[0].length).toBe(1600);
+    });
+
+    it("falls back to JSON audio when the server declines binary", async () => {
+      server = await startFakeLTServer({ wordMs: 100, binaryAudio: false });
+      const audio: Int16Array[] = [];
+      const { client } = createClient(server, {
+        onAudioData: (samples) => audio.push(samples),
+      });
+
+      await client.connect({ transport: createTransport() });
+      await client.reset({ langIn: "en-US", langOut: "es-ES" });
+      client.sendAudio(new Int16Array(1600));
+      await waitFor(() => audio.length === 1);
+
+      const ws = NodeWebSocket.instances.at(-1)!;
+      expect(JSON.parse(ws.sent.at(-1) as string).type).toBe("audio");
+      expect(audio[0].length).toBe(1600);
+    });
+
+    it("reports detected languages and correlates ready", async () => {
+      server = await startFakeLTServer();
+      const onLanguages = jest.fn();
+      const onReady = jest.fn();
+      const state = new TranslationState({ onLanguages, onReady });
+      const client = new SanasTranslationClient(state, {
+        apiKey: "test-key",
+        endpoint: server.url,
+        headless: true,
+      });
+      clients.push(client);
+
+      await client.connect({ transport: createTransport() });
+      await client.reset({
+        langIn: "fr-FR",
+        langOut: "en-US",
+        detectLanguages: true,
+      });
+      await waitFor(() => onLanguages.mock.calls.length > 0);
+
+      expect(onReady).toHaveBeenCalledWith(expect.stringMatching(/^reset-/));
+      expect(onLanguages).toHaveBeenCalledWith([
+        { shortCode: "fr", name: "French", probability: 1 },
+      ]);
+    });
+
+    it("closes with 1008 for unknown API keys", async () => {
+      server = await startFakeLTServer({ apiKeys: ["good-key"] });
+      const { client, state, onError } = createClient(server, {
+        apiKey: "bad-key",
+      });
+
+      await client.connect({ transport: createTransport() });
+      await waitFor(() => state.connectionState === "disconnected");
+
+      expect(onError).toHaveBeenCalledWith(
+        "Authentication failed. Please sign in again.",
+        expect.objectContaining({ code: "auth", recoverable: false }),
+      );
+    });
+
+    it("reopens the session with a refreshed token after 1008", async () => {
+      server = await startFakeLTServer({
+        accessTokens: ["fresh-token"],
+        transcript: "hello",
+        wordMs: 100,
+      });
+      const accessToken = jest.fn(({ forceRefresh }) =>
+        forceRefresh ? "fresh-token" : "stale-token",
+      );
+      const { client, state, onError } = createClient(server, {
+        accessToken,
+      });
+
+      await client.connect({ transport: createTransport() });
+      await client.reset({ langIn: "en-US", langOut: "es-ES" });
+      client.sendAudio(new Int16Array(1600));
+      await waitFor(() => state.getState().utterances.length > 0);
+
+      expect(accessToken).toHaveBeenLastCalledWith({ forceRefresh: true });
+      expect(state.connectionState).toBe("connected");
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it("ends the session after an audio source finishes", async () => {
+      server = await startFakeLTServer({ wordMs: 100, wordsPerUtterance: 10 });
+      const { client, state } = createClient(server);
+      const onAudioSourceEnd = jest.fn();
+
+      await client.connect({
+        transport: createTransport(),
+        audioSource: audioSourceFromPcm(new Int16Array(1600 * 3), 16000, {
+          realtime: false,
+        }),
+        onAudioSourceEnd,
+      });
+      await client.reset({ langIn: "en-US", langOut: "fr-FR" });
+
+      await waitFor(() => state.connectionState === "disconnected");
+      expect(onAudioSourceEnd).toHaveBeenCalled();
+      expect(state.getState().utterances[0].translation.complete).toHaveLength(
+        3,
+      );
+    });
+
+    it("drops connections on demand", async () => {
+      server = await startFakeLTServer();
+      const { client, state } = createClient(server);
+
+      await client.connect({ transport: createTransport() });
+      await client.reset({ langIn: "en-US", langOut: "es-ES" });
+      expect(server.sessionCount).toBe(1);
+
+      server.dropConnections();
+      await waitFor(() => state.connectionState === "disconnected");
+      expect(server.sessionCount).toBe(0);
+    });
+
+    it("drops connections after dropAfterMs", async () => {
+      server = await startFakeLTServer({ dropAfterMs: 50 });
+      const { client, state } = createClient(server);
+
+      await client.connect({ transport: createTransport() });
+      await waitFor(() => state.connectionState === "disconnected");
+    });
+  });
+
+  it("answers /session with 501 without a WebRTC implementation", async () => {
+    server = await startFakeLTServer();
+
+    const response = await fetch(`${server.url}/session`, {
+      method: "POST",
+      headers: { "X-API-Key": "test-key" },
+      body: JSON.stringify({ type: "offer", sdp: "" }),
+    });
+
+    expect(response.status).toBe(501);
+  });
+});
@@ -0,0 +1,140 @@
+import { float32ToInt16, Resampler } from "../audio";
+import { createPcmWorkletNode, PcmFrame } from "../pcmWorklet";
+
+interface Processor {
+  process(inputs: Float32Array[][]): boolean;
+}
+
+type ProcessorConstructor = new (options: {
+  processorOptions: unknown;
+}) => Processor;
+
+const globals = globalThis as unknown as Record<string, unknown>;
+
+/**
+ * Create the node on a fake context running at `contextRate`, then run the
+ * registered processor's source in a stand-in for the worklet global scope,
+ * whose clock is the global `currentTime`.
+ */
+async function createProcessor(
+  contextRate: number,
+  options: Parameters<typeof createPcmWorkletNode>[1],
+) {
+  let blob: Blob | undefined;
+  jest.spyOn(URL, "createObjectURL").mockImplementation((object) => {
+    blob = object as Blob;
+    return "blob:pcm-processor";
+  });
+  jest.spyOn(URL, "revokeObjectURL").mockImplementation(() => {});
+
+  let code = "";
+  let nodeOptions: { processorOptions: unknown } | undefined;
+  globals.AudioWorkletNode = class {
+    constructor(_ctx: unknown, _name: string, options: typeof nodeOptions) {
+      nodeOptions = options;
+    }
+  };
+  const ctx = {
+    sampleRate: contextRate,
+    audioWorklet: {
+      addModule: async () => {
+        code = await blob!.text();
+      },
+    },
+  };
+  await createPcmWorkletNode(ctx as unknown as AudioContext, options);
+
+  const posted: { message: PcmFrame; transfer: ArrayBuffer[] }[] = [];
+  class AudioWorkletProcessor {
+    port = {
+      postMessage: (message: PcmFrame, transfer: ArrayBuffer[]) =>
+        posted.push({ message, transfer }),
+    };
+  }
+  let Processor: ProcessorConstructor | undefined;
+  globals.currentTime = 0;
+  new Function(
+    "AudioWorkletProcessor",
+    "registerProcessor",
+    "sampleRate",
+    code,
+  )(
+    AudioWorkletProcessor,
+    (_name: string, processor: ProcessorConstructor) => {
+      Processor = processor;
+    },
+    contextRate,
+  );
+  return { processor: new Processor!(nodeOptions!), posted };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete globals.AudioWorkletNode;
+  delete globals.currentTime;
+});
+
+describe("createPcmWorkletNode", () => {
+  it("posts Int16 frames of frameMs with their capture times", async () => {
+    const { processor, posted } = await createProcessor(16000, {
+      frameMs: 10,
+    });
+
+    for (let i = 0; i < 5; i++) {
+      globals.currentTime = (i * 128) / 16000;
+      processor.process([[new Float32Array(128).fill(0.5)]]);
+    }
+
+    // 640 samples make four 160-sample frames; the rest waits for more.
+    expect(posted).toHaveLength(4);
+    const [first, second] = posted;
+    expect(first.message.samples).toHaveLength(160);
+    expect(first.message.samples[0]).toBe(Math.floor(0.5 * 0x7fff));
+    expect(first.message.time).toBe(0);
+    expect(second.message.time).toBeCloseTo(0.01);
+    expect(first.transfer).toEqual([first.message.samples.buffer]);
+  });
+
+  it("resamples to the requested rate before framing", async () => {
+    const { processor, posted } = await createProcessor(48000, {
+      sampleRate: 16000,
+    });
+
+    for (let i = 0; i < 20; i++) {
+      processor.process([[new Float32Array(128).fill(0.25)]]);
+    }
+
+    // 2560 samples at 48 kHz are about 850 at 16 kHz: two 20 ms frames.
+    expect(posted).toHaveLength(2);
+    const { samples } = posted[1].message;
+    expect(samples).toHaveLength(320);
+    expect(samples[100]).toBeCloseTo(0.25 * 0x7fff, -1);
+  });
+
+  it("resamples exactly like Resampler", async () => {
+    const { processor, posted } = await createProcessor(48000, {
+      sampleRate: 16000,
+    });
+    const resampler = new Resampler(48000, 16000);
+    const input = new Float32Array(128 * 20);
+    for (let i = 0; i < input.length; i++) {
+      input[i] = Math.sin((2 * Math.PI * 440 * i) / 48000);
+    }
+
+    let expected = new Float32Array(0);
+    for (let i = 0; i < input.length; i += 128) {
+      const chunk = input.subarray(i, i + 128);
+      processor.process([[chunk]]);
+      const output = resampler.process(chunk);
+      const joined = new Float32Array(expected.length + output.length);
+      joined.set(expected);
+      joined.set(output, expected.length);
+      expected = joined;
+    }
+
+    const frames = posted.map(({ message }) => Array.from(message.samples));
+    expect(frames.flat()).toEqual(
+      Array.from(float32ToInt16(expected).subarray(0, 640)),
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { bindPushToTalkKey } from "../pushToTalk";
+import { SanasTranslationClient } from "../SanasTranslationClient";
+
+function makeClient(isConnected = true) {
+  return {
+    isConnected,
+    startTalking: jest.fn(),
+    stopTalking: jest.fn(),
+  } as unknown as SanasTranslationClient & {
+    startTalking: jest.Mock;
+    stopTalking: jest.Mock;
+  };
+}
+
+function key(type: string, code: string) {
+  return Object.assign(new Event(type, { cancelable: true }), { code });
+}
+
+describe("bindPushToTalkKey", () => {
+  it("talks while the key is held", () => {
+    const client = makeClient();
+    const target = new EventTarget();
+    bindPushToTalkKey(client, { target });
+
+    const down = key("keydown", "Space");
+    target.dispatchEvent(down);
+    // Auto-repeat keeps firing keydown while held.
+    target.dispatchEvent(key("keydown", "Space"));
+    expect(client.startTalking).toHaveBeenCalledTimes(1);
+    expect(down.defaultPrevented).toBe(true);
+
+    target.dispatchEvent(key("keyup", "Space"));
+    expect(client.stopTalking).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses the configured key", () => {
+    const client = makeClient();
+    const target = new EventTarget();
+    bindPushToTalkKey(client, { target, code: "KeyT" });
+
+    target.dispatchEvent(key("keydown", "Space"));
+    expect(client.startTalking).not.toHaveBeenCalled();
+
+    target.dispatchEvent(key("keydown", "KeyT"));
+    expect(client.startTalking).toHaveBeenCalled();
+  });
+
+  it("stops talking when focus is lost", () => {
+    const client = makeClient();
+    const target = new EventTarget();
+    bindPushToTalkKey(client, { target });
+
+    target.dispatchEvent(key("keydown", "Space"));
+    target.dispatchEvent(new Event("blur"));
+
+    expect(client.stopTalking).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores keys typed into form fields", () => {
+    const client = makeClient();
+    const field = Object.assign(new EventTarget(), { tagName: "INPUT" });
+    bindPushToTalkKey(client, { target: field });
+
+    const down = key("keydown", "Space");
+    field.dispatchEvent(down);
+
+    expect(client.startTalking).not.toHaveBeenCalled();
+    expect(down.defaultPrevented).toBe(false);
+  });
+
+  it("ignores the key while disconnected", () => {
+    const client = makeClient(false);
+    const target = new EventTarget();
+    bindPushToTalkKey(client, { target });
+
+    target.dispatchEvent(key("keydown", "Space"));
+    target.dispatchEvent(key("keyup", "Space"));
+
+    expect(client.startTalking).not.toHaveBeenCalled();
+    expect(client.stopTalking).not.toHaveBeenCalled();
+  });
+
+  it("stops talking and removes listeners when unbound", () => {
+    const client = makeClient();
+    const target = new EventTarget();
+    const unbind = bindPushToTalkKey(client, { target });
+
+    target.dispatchEvent(key("keydown", "Space"));
+    unbind();
+    target.dispatchEvent(key("keydown", "Space"));
+
+    expect(client.stopTalking).toHaveBeenCalledTimes(1);
+    expect(client.startTalking).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,420 @@
+import {
+  ConnectOptions,
+  LTMessage,
+  ResetOptions,
+  SanasTranslationClientOptions,
+  Transport,
+  TransportCallbacks,
+  WSMessage,
+} from "../types";
+import { WebRTCTransport } from "../WebRTCTransport";
+import {
+  WebSocketConstructor,
+  WebSocketTransport,
+} from "../WebSocketTransport";
+
+// --- Mock browser APIs ---
+
+class MockMediaStreamTrack {
+  kind = "audio";
+  enabled = true;
+  stop = jest.fn();
+}
+
+class MockMediaStream {
+  private tracks: MockMediaStreamTrack[];
+
+  constructor(tracks: MockMediaStreamTrack[] = [new MockMediaStreamTrack()]) {
+    this.tracks = tracks;
+  }
+
+  getTracks() {
+    return this.tracks;
+  }
+}
+
+class MockDataChannel {
+  readyState = "connecting";
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  send = jest.fn();
+
+  open() {
+    this.readyState = "open";
+    this.onopen?.();
+  }
+}
+
+class MockPeerConnection {
+  static instances: MockPeerConnection[] = [];
+
+  connectionState = "new";
+  channel = new MockDataChannel();
+  ontrack: ((event: { streams: MockMediaStream[] }) => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+  onnegotiationneeded: (() => void) | null = null;
+  createDataChannel = jest.fn(() => this.channel);
+  addTrack = jest.fn();
+  close = jest.fn();
+  createOffer = jest.fn(async () => ({ type: "offer", sdp: "offer-sdp" }));
+  setLocalDescription = jest.fn(async () => {});
+  setRemoteDescription = jest.fn(async () => {});
+  getStats = jest.fn(async () => new Map());
+
+  constructor() {
+    MockPeerConnection.instances.push(this);
+  }
+}
+
+class MockWebSocket {
+  static instances: MockWebSocket[] = [];
+
+  readyState = 0;
+  binaryType = "blob";
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  send = jest.fn();
+  close = jest.fn();
+
+  constructor() {
+    MockWebSocket.instances.push(this);
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+}
+
+(globalThis as unknown as Record<string, unknown>).MediaStream =
+  MockMediaStream;
+(globalThis as unknown as Record<string, unknown>).RTCPeerConnection =
+  MockPeerConnection;
+
+const mockFetch = jest.fn();
+(globalThis as unknown as Record<string, unknown>).fetch = mockFetch;
+
+// --- Harnesses ---
+
+const clientOptions: SanasTranslationClientOptions = {
+  apiKey: "test-key",
+  endpoint: "https://lt.test.com",
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+interface Connected {
+  transport: Transport;
+  callbacks: TransportCallbacks & { onMessage: jest.Mock };
+  /** Language settings from the last configuration, in LT reset form. */
+  lastConfiguration(): Record<string, unknown>;
+  /** Conversation ID and display name sent to the server. */
+  participant(): { conversation_id: unknown; name: unknown };
+  /** Deliver what the server means by `message` in the transport's protocol. */
+  receive(message: LTMessage): void;
+}
+
+interface Harness {
+  name: string;
+  connect(options?: Partial<ConnectOptions>): Promise<Connected>;
+}
+
+function makeCallbacks() {
+  return {
+    onMessage: jest.fn(),
+    onError: jest.fn(),
+    onConnectionStateChange: jest.fn(),
+  };
+}
+
+const webRTC: Harness = {
+  name: "WebRTCTransport",
+  async connect(options = {}) {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({ type: "answer", sdp: "", session_id: "s1" }),
+    });
+    const transport = new WebRTCTransport();
+    const callbacks = makeCallbacks();
+    const connecting = transport.connect(
+      {
+        transport,
+        audioTrack: new MockMediaStreamTrack() as unknown as MediaStreamTrack,
+        ...options,
+      },
+      clientOptions,
+      callbacks,
+    );
+    await flush();
+
+    const peer = MockPeerConnection.instances.at(-1)!;
+    peer.onnegotiationneeded?.();
+    await flush();
+    peer.ontrack?.({ streams: [new MockMediaStream()] });
+    await connecting;
+    peer.channel.open();
+
+    return {
+      transport,
+      callbacks,
+      lastConfiguration() {
+        const resets = peer.channel.send.mock.calls
+          .map(([data]) => JSON.parse(data))
+          .filter((m) => m.type === "reset");
+        return resets.at(-1).reset;
+      },
+      participant() {
+        const body = JSON.parse(mockFetch.mock.calls.at(-1)[1].body);
+        return { conversation_id: body.conversation_id, name: body.name };
+      },
+      receive(message) {
+        peer.channel.onmessage?.({ data: JSON.stringify(message) });
+      },
+    };
+  },
+};
+
+/** The WS protocol's encoding of an LT message. */
+function toWSMessage(message: LTMessage): WSMessage {
+  switch (message.type) {
+    case "ready":
+      return { type: "ready", id: message.ready.id, session_id: "s1" };
+    case "transcription":
+    case "translation": {
+      const { complete, partial } =
+        message.type === "transcription"
+          ? message.transcription
+          : message.translation;
+      return { type: message.type, complete, partial };
+    }
+    case "speech_delimiter":
+      return { type: "speech_delimiter", ...message.speech_delimiter };
+    case "speech_languages":
+      return { type: "languages", ...message.speech_languages };
+    case "languages":
+      return { type: "languages", ...message.languages };
+    case "speech_stop":
+      return { type: "speech_stop", utterance_idx: 0 };
+    default:
+      throw new Error(`Not a server message: ${message.type}`);
+  }
+}
+
+const webSocket: Harness = {
+  name: "WebSocketTransport",
+  async connect(options = {}) {
+    const transport = new WebSocketTransport({
+      headless: true,
+      webSocket: MockWebSocket as unknown as WebSocketConstructor,
+    });
+    const callbacks = makeCallbacks();
+    const connecting = transport.connect(
+      { transport, ...options },
+      clientOptions,
+      callbacks,
+    );
+    const ws = MockWebSocket.instances.at(-1)!;
+    ws.open();
+    await connecting;
+
+    const lastConfig = () =>
+      ws.send.mock.calls
+        .map(([data]) => JSON.parse(data))
+        .filter((m) => m.type === "config")
+        .at(-1);
+
+    return {
+      transport,
+      callbacks,
+      lastConfiguration() {
+        const config = lastConfig();
+        return {
+          id: config.id,
+          lang_in: config.lang_in,
+          lang_out: config.lang_out,
+          voice_id: config.voice_id,
+          glossary: config.glossary,
+          clear_history: config.clear_history,
+          can_lang_swap: config.can_lang_swap,
+          detect_languages: config.detect_languages,
+        };
+      },
+      participant() {
+        const config = lastConfig();
+        return { conversation_id: config.conversation_id, name: config.name };
+      },
+      receive(message) {
+        ws.onmessage?.({ data: JSON.stringify(toWSMessage(message)) });
+      },
+    };
+  },
+};
+
+// --- Tests ---
+
+const word = (text: string, start: number) => ({
+  word: text,
+  start,
+  end: start + 0.5,
+});
+
+describe.each([webRTC, webSocket])("$name protocol parity", (harness) => {
+  let connected: Connected;
+
+  beforeEach(() => {
+    MockPeerConnection.instances = [];
+    MockWebSocket.instances = [];
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    connected?.transport.disconnect();
+  });
+
+  it("sends every reset option", async () => {
+    connected = await harness.connect();
+    const options: ResetOptions = {
+      langIn: "en-US",
+      langOut: "es-ES",
+      voiceId: "voice-1",
+      glossary: ["Sanas"],
+      clearHistory: true,
+      canLangSwap: true,
+      detectLanguages: true,
+    };
+
+    const id = connected.transport.configure(options);
+
+    expect(id).toEqual(expect.any(String));
+    expect(connected.lastConfiguration()).toEqual({
+      id,
+      lang_in: "en-US",
+      lang_out: "es-ES",
+      voice_id: "voice-1",
+      glossary: ["Sanas"],
+      clear_history: true,
+      can_lang_swap: true,
+      detect_languages: true,
+    });
+  });
+
+  it("sends the conversation ID and user name", async () => {
+    connected = await harness.connect({
+      conversationId: "conv-1",
+      userName: "Ana",
+    });
+
+    connected.transport.configure({ langIn: "en-US", langOut: "es-ES" });
+
+    expect(connected.participant()).toEqual({
+      conversation_id: "conv-1",
+      name: "Ana",
+    });
+  });
+
+  it("correlates ready with the reset ID", async () => {
+    connected = await harness.connect();
+
+    const first = connected.transport.configure({
+      langIn: "en-US",
+      langOut: "es-ES",
+    });
+    const second = connected.transport.configure({
+      langIn: "en-US",
+      langOut: "fr-FR",
+    });
+    connected.receive({ type: "ready", ready: { id: second } });
+
+    expect(first).not.toBe(second);
+    expect(connected.callbacks.onMessage).toHaveBeenCalledWith({
+      type: "ready",
+      ready: { id: second },
+    });
+  });
+
+  it("produces the same LT message stream", async () => {
+    connected = await harness.connect();
+    const id = connected.transport.configure({
+      langIn: "en-US",
+      langOut: "es-ES",
+      detectLanguages: true,
+    });
+
+    const stream: LTMessage[] = [
+      { type: "ready", ready: { id } },
+      {
+        type: "speech_languages",
+        speech_languages: { lang_in: "en-US", lang_out: "es-ES" },
+      },
+      {
+        type: "languages",
+        languages: {
+          languages: [{ short_code: "en", name: "English", probability: 0.9 }],
+        },
+      },
+      {
+        type: "transcription",
+        transcription: {
+          complete: [word("hello", 0)],
+          partial: [word("wor", 0.5)],
+          utterance_idx: 0,
+        },
+      },
+      {
+        type: "translation",
+        translation: {
+          complete: [word("hola", 0)],
+          partial: [],
+          utterance_idx: 0,
+        },
+      },
+      {
+        type: "speech_delimiter",
+        speech_delimiter: {
+          time: 0.5,
+          transcription: { utterance_idx: 0, word_idx: 1, char_idx: 0 },
+          translation: { utterance_idx: 0, word_idx: 1, char_idx: 0 },
+        },
+      },
+      { type: "speech_stop", speech_stop: {} },
+    ];
+    for (const message of stream) {
+      connected.receive(message);
+    }
+
+    expect(connected.callbacks.onMessage.mock.calls).toEqual(
+      stream.map((message) => [message]),
+    );
+  });
+});
+
+describe("WebSocketTransport reset correlation", () => {
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+  });
+
+  it("answers configs in order when the server does not echo IDs", async () => {
+    const connected = await webSocket.connect();
+    const ws = MockWebSocket.instances.at(-1)!;
+
+    const first = connected.transport.configure({
+      langIn: "en-US",
+      langOut: "es-ES",
+    });
+    const second = connected.transport.configure({
+      langIn: "en-US",
+      langOut: "fr-FR",
+    });
+    ws.onmessage?.({ data: JSON.stringify({ type: "ready" }) });
+    ws.onmessage?.({ data: JSON.stringify({ type: "ready" }) });
+
+    expect(connected.callbacks.onMessage.mock.calls).toEqual([
+      [{ type: "ready", ready: { id: first } }],
+      [{ type: "ready", ready: { id: second } }],
+    ]);
+    connected.transport.disconnect();
+  });
+});
@@ -1,3 +1,5 @@
+import { MicrophoneError } from "./errors";
+
 /** Convert Float32 PCM samples (range -1..1) to Int16 PCM. */
 export function float32ToInt16(float32: Float32Array): Int16Array {
   const int16 = new Int16Array(float32.length);
@@ -8,27 +10,210 @@ export function float32ToInt16(float32: Float32Array): Int16Array {
   return int16;
 }
 
+/** Convert Int16 PCM samples to Float32 PCM (range -1..1). */
+export function int16ToFloat32(int16: Int16Array): Float32Array {
+  const float32 = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    float32[i] = int16[i] / (int16[i] < 0 ? 0x8000 : 0x7fff);
+  }
+  return float32;
+}
+
+/**
+ * Streaming sample rate converter for mono Float32 PCM. Each output sample is
+ * a Blackman-windowed sinc interpolation of the input, low-passed below the
+ * lower of the two Nyquist frequencies, so any pair of rates (including
+ * 44.1 kHz to 16 kHz) converts without aliasing or a change in pitch.
+ *
+ * State carries over between process() calls, so a stream can be converted
+ * a chunk at a time without clicks at chunk boundaries. Output trails input
+ * by the filter's half-width, about 1 ms; flush() returns the rest.
+ *
+ * The class is self-contained: the capture worklet embeds its source.
+ */
+export class Resampler {
+  readonly inputRate: number;
+  readonly outputRate: number;
+  /** Input samples per output sample. */
+  private step: number;
+  /** Half the filter's length, in input samples. */
+  private halfWidth: number;
+  /** The filter from 0 to halfWidth, `resolution` points per input sample. */
+  private table: Float32Array;
+  private resolution = 256;
+  /** Input not yet fully consumed, starting with the filter's left context. */
+  private history: Float32Array;
+  /** Position of the next output sample in `history`, in input samples. */
+  private time: number;
+
+  constructor(inputRate: number, outputRate: number) {
+    this.inputRate = inputRate;
+    this.outputRate = outputRate;
+    this.step = inputRate / outputRate;
+
+    // Leave 5% of the band for the filter's transition.
+    const cutoff = 0.95 * Math.min(1, outputRate / inputRate);
+    const zeroCrossings = 16;
+    this.halfWidth = zeroCrossings / cutoff;
+
+    const size = Math.ceil(this.halfWidth * this.resolution);
+    this.table = new Float32Array(size + 2);
+    for (let i = 0; i <= size; i++) {
+      const t = i / this.resolution;
+      if (t > this.halfWidth) break;
+      const x = Math.PI * cutoff * t;
+      const sinc = x === 0 ? 1 : Math.sin(x) / x;
+      const w = (Math.PI * t) / this.halfWidth;
+      const window = 0.42 + 0.5 * Math.cos(w) + 0.08 * Math.cos(2 * w);
+      this.table[i] = cutoff * sinc * window;
+    }
+
+    const context = Math.ceil(this.halfWidth);
+    this.history = new Float32Array(context);
+    this.time = context;
+  }
+
+  /** Convert the next chunk of the stream. */
+  process(input: Float32Array): Float32Array {
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    // Output needs halfWidth samples of input past it.
+    const last = buffer.length - 1 - this.halfWidth;
+    let count = 0;
+    for (let t = this.time; t <= last; t += this.step) count++;
+
+    const output = new Float32Array(count);
+    let time = this.time;
+    for (let i = 0; i < count; i++) {
+      output[i] = this.interpolate(buffer, time);
+      time += this.step;
+    }
+
+    const consumed = Math.max(0, Math.floor(time - this.halfWidth));
+    this.history = buffer.slice(consumed);
+    this.time = time - consumed;
+    return output;
+  }
+
+  /** Convert what is left of the stream, as if followed by silence. */
+  flush(): Float32Array {
+    return this.process(new Float32Array(Math.ceil(this.halfWidth) + 1));
+  }
+
+  private interpolate(buffer: Float32Array, time: number): number {
+    const first = Math.max(0, Math.ceil(time - this.halfWidth));
+    const last = Math.min(buffer.length - 1, Math.floor(time + this.halfWidth));
+    let sum = 0;
+    for (let i = first; i <= last; i++) {
+      const position = Math.abs(time - i) * this.resolution;
+      const index = Math.floor(position);
+      const a = this.table[index];
+      sum += buffer[i] * (a + (this.table[index + 1] - a) * (position - index));
+    }
+    return sum;
+  }
+}
+
+/** Convert a whole recording of mono Float32 PCM to another sample rate. */
+export function resample(
+  samples: Float32Array,
+  inputRate: number,
+  outputRate: number,
+): Float32Array {
+  if (inputRate === outputRate) return samples;
+  const resampler = new Resampler(inputRate, outputRate);
+  const head = resampler.process(samples);
+  const tail = resampler.flush();
+  const length = Math.round((samples.length * outputRate) / inputRate);
+  const output = new Float32Array(length);
+  output.set(head.subarray(0, length));
+  if (head.length < length) {
+    output.set(tail.subarray(0, length - head.length), head.length);
+  }
+  return output;
+}
+
+/**
+ * Create an AudioContext at `sampleRate`, or at the device's rate on browsers
+ * that refuse custom rates. Browsers may also ignore the rate, so callers
+ * check `ctx.sampleRate` and resample when it differs.
+ */
+export function createAudioContext(sampleRate: number): AudioContext {
+  try {
+    return new AudioContext({ sampleRate });
+  } catch {
+    return new AudioContext();
+  }
+}
+
 /**
  * Acquire a microphone audio track via getUserMedia.
  * The caller owns the returned track and is responsible for stopping it.
+ * Failures are MicrophoneErrors whose `reason` tells a denied permission
+ * from a missing or busy device.
  */
 export async function getMicrophoneTrack(
   options?: {
     sampleRate?: number;
+    /** Open this input device; fails with reason "not-found" if it is gone. */
+    deviceId?: string;
     // eslint-disable-next-line no-undef
     constraints?: MediaTrackConstraints;
   },
 ): Promise<MediaStreamTrack> {
-  const stream = await navigator.mediaDevices.getUserMedia({
-    video: false,
-    audio: options?.constraints ?? {
-      echoCancellation: true,
-      noiseSuppression: false,
-      sampleRate: options?.sampleRate ?? 16000,
-      autoGainControl: true,
-    },
-  });
+  const constraints = options?.constraints ?? {
+    echoCancellation: true,
+    noiseSuppression: false,
+    sampleRate: options?.sampleRate ?? 16000,
+    autoGainControl: true,
+  };
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      video: false,
+      audio: options?.deviceId
+        ? { ...constraints, deviceId: { exact: options.deviceId } }
+        : constraints,
+    });
+  } catch (e) {
+    throw microphoneError(e);
+  }
   const track = stream.getAudioTracks()[0];
-  if (!track) throw new Error("No audio track available.");
+  if (!track) {
+    throw new MicrophoneError("No audio track available.", {
+      reason: "not-found",
+    });
+  }
   return track;
 }
+
+/** Classify a getUserMedia failure by its DOMException name. */
+function microphoneError(cause: unknown): MicrophoneError {
+  const name = (cause as { name?: unknown } | null)?.name;
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return new MicrophoneError("Microphone access was denied.", {
+        cause,
+        reason: "permission-denied",
+      });
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return new MicrophoneError("No microphone was found.", {
+        cause,
+        reason: "not-found",
+      });
+    case "NotReadableError":
+    case "AbortError":
+      return new MicrophoneError(
+        "The microphone is in use or could not be started.",
+        { cause, reason: "in-use" },
+      );
+    default:
+      return new MicrophoneError("Unable to access the microphone.", {
+        cause,
+      });
+  }
+}
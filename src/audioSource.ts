@@ -0,0 +1,307 @@
+import { float32ToInt16, int16ToFloat32, resample } from "./audio";
+import { AudioSourceError, MicrophoneError, SanasError } from "./errors";
+import { createPcmWorkletNode, PcmFrame } from "./pcmWorklet";
+import { AudioSource, FrameMs } from "./types";
+
+const DEFAULT_SAMPLE_RATE = 16000;
+const DEFAULT_CHUNK_MS = 20;
+
+export interface PcmAudioSourceOptions {
+  /** Duration of each chunk in ms. Defaults to 20. */
+  chunkMs?: number;
+  /** Pace chunks in real time, like a live microphone. Defaults to true. */
+  realtime?: boolean;
+}
+
+export interface DecodedAudio {
+  /** Mono Int16 PCM samples. */
+  samples: Int16Array;
+  /** Sample rate in Hz. */
+  sampleRate: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+class PcmAudioSource implements AudioSource {
+  readonly sampleRate: number;
+  private samples: Int16Array;
+  private chunkSize: number;
+  private realtime: boolean;
+  private offset = 0;
+  private closed = false;
+
+  constructor(
+    samples: Int16Array,
+    sampleRate: number,
+    options: PcmAudioSourceOptions,
+  ) {
+    this.samples = samples;
+    this.sampleRate = sampleRate;
+    this.chunkSize = Math.max(
+      1,
+      Math.round((sampleRate * (options.chunkMs ?? DEFAULT_CHUNK_MS)) / 1000),
+    );
+    this.realtime = options.realtime ?? true;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Int16Array> {
+    const startedAt = performance.now();
+    const startOffset = this.offset;
+
+    while (!this.closed && this.offset < this.samples.length) {
+      if (this.realtime) {
+        const dueMs = ((this.offset - startOffset) / this.sampleRate) * 1000;
+        const waitMs = startedAt + dueMs - performance.now();
+        if (waitMs > 0) await sleep(waitMs);
+        if (this.closed) return;
+      }
+
+      const chunk = this.samples.slice(
+        this.offset,
+        this.offset + this.chunkSize,
+      );
+      this.offset += chunk.length;
+      yield chunk;
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+class TrackAudioSource implements AudioSource {
+  readonly sampleRate: number;
+  readonly track: MediaStreamTrack;
+  private frameMs: FrameMs | undefined;
+  private context: AudioContext | null = null;
+  private starting: Promise<void> | null = null;
+  private pending: Int16Array[] = [];
+  private wake: (() => void) | null = null;
+  private iterating = false;
+  private closed = false;
+
+  constructor(
+    track: MediaStreamTrack,
+    sampleRate: number,
+    frameMs: FrameMs | undefined,
+  ) {
+    this.track = track;
+    this.sampleRate = sampleRate;
+    this.frameMs = frameMs;
+    track.addEventListener("ended", () => this.close());
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Int16Array> {
+    await this.start();
+    this.iterating = true;
+    try {
+      while (!this.closed) {
+        const chunk = this.pending.shift();
+        if (chunk) {
+          yield chunk;
+          continue;
+        }
+        await new Promise<void>((resolve) => {
+          this.wake = resolve;
+        });
+        this.wake = null;
+      }
+    } finally {
+      // Audio captured while nobody is listening would arrive as a stale burst.
+      this.iterating = false;
+      this.pending = [];
+    }
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.wake?.();
+    if (this.context) {
+      this.context.close();
+      this.context = null;
+    }
+  }
+
+  private start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = (async () => {
+        // At the device's rate, which Firefox requires to connect the track;
+        // the worklet converts to this.sampleRate.
+        const ctx = new AudioContext();
+        this.context = ctx;
+        await ctx.resume();
+
+        const workletNode = await createPcmWorkletNode(ctx, {
+          sampleRate: this.sampleRate,
+          frameMs: this.frameMs,
+        });
+        workletNode.port.onmessage = (event: MessageEvent<PcmFrame>) => {
+          if (!this.iterating) return;
+          this.pending.push(event.data.samples);
+          this.wake?.();
+        };
+
+        const sourceNode = ctx.createMediaStreamSource(
+          new MediaStream([this.track]),
+        );
+        sourceNode.connect(workletNode);
+        workletNode.connect(ctx.destination);
+      })();
+    }
+    return this.starting;
+  }
+}
+
+/**
+ * Create an AudioSource from raw Int16 PCM. Chunks are paced in real time
+ * unless `realtime` is false. A trailing odd byte of an ArrayBuffer, half a
+ * sample, is dropped.
+ */
+export function audioSourceFromPcm(
+  pcm: ArrayBuffer | Int16Array,
+  sampleRate: number,
+  options: PcmAudioSourceOptions = {},
+): AudioSource {
+  const samples =
+    pcm instanceof Int16Array
+      ? pcm
+      : new Int16Array(pcm, 0, Math.floor(pcm.byteLength / 2));
+  return new PcmAudioSource(samples, sampleRate, options);
+}
+
+/**
+ * Create an AudioSource capturing a MediaStreamTrack at the given sample rate,
+ * in chunks of `frameMs` (default 20). WebRTCTransport sends the track itself.
+ * The caller still owns the track.
+ */
+export function audioSourceFromTrack(
+  track: MediaStreamTrack,
+  options: { sampleRate?: number; frameMs?: FrameMs } = {},
+): AudioSource {
+  return new TrackAudioSource(
+    track,
+    options.sampleRate ?? DEFAULT_SAMPLE_RATE,
+    options.frameMs,
+  );
+}
+
+/**
+ * Create an AudioSource from an audio file (WAV, MP3, or anything the browser
+ * can decode), downmixed to mono at the given sample rate. 16-bit PCM WAV
+ * files are read and resampled directly, without Web Audio.
+ */
+export async function audioSourceFromFile(
+  file: Blob | ArrayBuffer,
+  options: PcmAudioSourceOptions & { sampleRate?: number } = {},
+): Promise<AudioSource> {
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const buffer = file instanceof ArrayBuffer ? file : await file.arrayBuffer();
+
+  const wav = decodeWav(buffer);
+  if (wav) {
+    const samples =
+      wav.sampleRate === sampleRate
+        ? wav.samples
+        : float32ToInt16(
+            resample(int16ToFloat32(wav.samples), wav.sampleRate, sampleRate),
+          );
+    return audioSourceFromPcm(samples, sampleRate, options);
+  }
+
+  if (typeof OfflineAudioContext === "undefined") {
+    throw new Error(
+      "Cannot decode audio file without Web Audio. Provide a 16-bit PCM WAV file.",
+    );
+  }
+
+  // decodeAudioData resamples to the context's sample rate.
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  const decoded = await ctx.decodeAudioData(buffer.slice(0));
+
+  const mono = new Float32Array(decoded.length);
+  for (let ch = 0; ch < decoded.numberOfChannels; ch++) {
+    const data = decoded.getChannelData(ch);
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += data[i] / decoded.numberOfChannels;
+    }
+  }
+
+  return audioSourceFromPcm(float32ToInt16(mono), sampleRate, options);
+}
+
+/**
+ * The error a transport reports when reading `source` fails: a
+ * MicrophoneError for a source capturing a track, an AudioSourceError
+ * otherwise, or what the source threw if that is already a SanasError.
+ */
+export function audioSourceReadError(
+  source: AudioSource,
+  cause: unknown,
+): SanasError {
+  if (cause instanceof SanasError) return cause;
+  return source.track
+    ? new MicrophoneError("Failed to read audio input.", { cause })
+    : new AudioSourceError("Failed to read the audio source.", { cause });
+}
+
+/**
+ * Parse a 16-bit PCM WAV file, downmixing to mono. Returns null for other
+ * formats.
+ */
+export function decodeWav(buffer: ArrayBuffer): DecodedAudio | null {
+  const view = new DataView(buffer);
+  const tag = (offset: number) =>
+    String.fromCharCode(
+      view.getUint8(offset),
+      view.getUint8(offset + 1),
+      view.getUint8(offset + 2),
+      view.getUint8(offset + 3),
+    );
+
+  if (buffer.byteLength < 12 || tag(0) !== "RIFF" || tag(8) !== "WAVE") {
+    return null;
+  }
+
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let format = 0;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+    } else if (id === "data") {
+      if (format !== 1 || bitsPerSample !== 16 || channels < 1) return null;
+
+      const frames = Math.floor(
+        Math.min(size, buffer.byteLength - body) / (2 * channels),
+      );
+      const samples = new Int16Array(frames);
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        for (let ch = 0; ch < channels; ch++) {
+          sum += view.getInt16(body + (i * channels + ch) * 2, true);
+        }
+        samples[i] = Math.round(sum / channels);
+      }
+      return { samples, sampleRate };
+    }
+
+    // Chunks are padded to an even size.
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+}
@@ -0,0 +1,80 @@
+import { AuthError } from "./errors";
+import { AccessToken, Credentials } from "./types";
+
+const DEFAULT_TOKEN_REFRESH_MARGIN_MS = 30000;
+
+const MISSING_CREDENTIALS_MESSAGE =
+  "Missing credentials: provide apiKey or accessToken.";
+
+export type AuthMethod =
+  | { type: "apiKey"; apiKey: string }
+  | { type: "accessToken"; token: string };
+
+/** Whether a rejected credential can be replaced by asking the provider again. */
+export function canRefreshCredentials(credentials: Credentials): boolean {
+  return typeof credentials.accessToken === "function";
+}
+
+/** The credential when it is known without asking a provider, else null. */
+export function staticCredentials(credentials: Credentials): AuthMethod | null {
+  const { accessToken, apiKey } = credentials;
+  if (typeof accessToken === "function") return null;
+  if (accessToken) return { type: "accessToken", token: accessToken };
+  if (apiKey) return { type: "apiKey", apiKey };
+  throw new AuthError(MISSING_CREDENTIALS_MESSAGE);
+}
+
+/**
+ * The credential to send with a request. A provider's token is refreshed when
+ * `forceRefresh` is set or it expires within the refresh margin.
+ */
+export async function resolveCredentials(
+  credentials: Credentials,
+  forceRefresh = false,
+): Promise<AuthMethod> {
+  const { accessToken } = credentials;
+  if (typeof accessToken === "function") {
+    let token = normalizeToken(await accessToken({ forceRefresh }));
+    const marginMs =
+      credentials.tokenRefreshMarginMs ?? DEFAULT_TOKEN_REFRESH_MARGIN_MS;
+    if (
+      !forceRefresh &&
+      token.expiresAt !== undefined &&
+      token.expiresAt - Date.now() <= marginMs
+    ) {
+      token = normalizeToken(await accessToken({ forceRefresh: true }));
+    }
+    if (!token.token) {
+      throw new AuthError("Access token provider returned no token.");
+    }
+    return { type: "accessToken", token: token.token };
+  }
+  return staticCredentials(credentials)!;
+}
+
+/** HTTP headers carrying the credential. */
+export function authHeaders(auth: AuthMethod): Record<string, string> {
+  return auth.type === "accessToken"
+    ? { Authorization: `Bearer ${auth.token}` }
+    : { "X-API-Key": auth.apiKey };
+}
+
+/**
+ * Run an authenticated request, asking the provider for a fresh token and
+ * retrying once if the server rejects the first one.
+ */
+export async function withTokenRefresh<T>(
+  credentials: Credentials,
+  request: (auth: AuthMethod) => Promise<T>,
+  isRejected: (result: T) => boolean,
+): Promise<T> {
+  const result = await request(await resolveCredentials(credentials));
+  if (!isRejected(result) || !canRefreshCredentials(credentials)) {
+    return result;
+  }
+  return request(await resolveCredentials(credentials, true));
+}
+
+function normalizeToken(token: string | AccessToken): AccessToken {
+  return typeof token === "string" ? { token } : token;
+}
@@ -0,0 +1,46 @@
+import { TimeoutError } from "./errors";
+
+export interface Deadline {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/**
+ * Settle like `promise`, unless `signal` aborts first (rejecting with its
+ * reason) or `timeoutMs` elapses (rejecting with a TimeoutError).
+ */
+export function withDeadline<T>(
+  promise: Promise<T>,
+  { signal, timeoutMs }: Deadline,
+  timeoutMessage: string,
+): Promise<T> {
+  if (!signal && timeoutMs === undefined) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => finish(() => reject(signal!.reason));
+    const timer =
+      timeoutMs === undefined
+        ? undefined
+        : setTimeout(
+            () => finish(() => reject(new TimeoutError(timeoutMessage))),
+            timeoutMs,
+          );
+
+    function finish(settle: () => void) {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      settle();
+    }
+
+    signal?.addEventListener("abort", onAbort);
+    promise.then(
+      (value) => finish(() => resolve(value)),
+      (err) => finish(() => reject(err)),
+    );
+  });
+}
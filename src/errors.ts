@@ -0,0 +1,189 @@
+import { ErrorCode, ErrorStreamMessage } from "./types/streamMessages";
+
+export interface SanasErrorOptions {
+  /** The underlying error or response text. */
+  cause?: unknown;
+  /** Whether retrying (e.g. reconnecting) may succeed. Defaults per code. */
+  recoverable?: boolean;
+  /** HTTP status or server error code, when the server reported one. */
+  status?: number;
+}
+
+const RECOVERABLE: Record<ErrorCode, boolean> = {
+  auth: false,
+  permission: false,
+  network: true,
+  protocol: false,
+  server: true,
+  timeout: true,
+  microphone: false,
+  "audio-source": false,
+};
+
+/**
+ * Base class for errors reported by the client, transports and state. Branch
+ * on `code` rather than on the message, which is meant for display.
+ */
+export class SanasError extends Error {
+  readonly code: ErrorCode;
+  readonly recoverable: boolean;
+  readonly status?: number;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    options: SanasErrorOptions = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "SanasError";
+    this.code = code;
+    this.recoverable = options.recoverable ?? RECOVERABLE[code];
+    this.status = options.status;
+  }
+
+  /** Serializable form for relaying through StreamMessage. */
+  toStreamMessage(): ErrorStreamMessage {
+    return {
+      type: "error",
+      message: this.message,
+      code: this.code,
+      recoverable: this.recoverable,
+      status: this.status,
+      cause: describeCause(this.cause),
+    };
+  }
+
+  /** Rebuild an error from a relayed StreamMessage. */
+  static fromStreamMessage(message: ErrorStreamMessage): SanasError {
+    return createError(message.code ?? "server", message.message, {
+      cause: message.cause,
+      recoverable: message.recoverable,
+      status: message.status,
+    });
+  }
+}
+
+/** Credentials missing, invalid or expired. */
+export class AuthError extends SanasError {
+  constructor(message: string, options?: SanasErrorOptions) {
+    super("auth", message, options);
+    this.name = "AuthError";
+  }
+}
+
+/** Valid credentials without access to translation. */
+export class PermissionError extends SanasError {
+  constructor(message: string, options?: SanasErrorOptions) {
+    super("permission", message, options);
+    this.name = "PermissionError";
+  }
+}
+
+/** The server could not be reached or the connection was lost. */
+export class NetworkError extends SanasError {
+  constructor(message: string, options?: SanasErrorOptions) {
+    super("network", message, options);
+    this.name = "NetworkError";
+  }
+}
+
+/** A message or request the other side did not understand. */
+export class ProtocolError extends SanasError {
+  constructor(message: string, options?: SanasErrorOptions) {
+    super("protocol", message, options);
+    this.name = "ProtocolError";
+  }
+}
+
+/** The server failed to handle a request. */
+export class ServerError extends SanasError {
+  constructor(message: string, options?: SanasErrorOptions) {
+    super("server", message, options);
+    this.name = "ServerError";
+  }
+}
+
+/** Thrown when connect() or reset() does not finish within its timeoutMs. */
+export class TimeoutError extends SanasError {
+  constructor(message: string, options?: SanasErrorOptions) {
+    super("timeout", message, options);
+    this.name = "TimeoutError";
+  }
+}
+
+export type MicrophoneErrorReason =
+  | "permission-denied"
+  | "not-found"
+  | "in-use"
+  | "unknown";
+
+export interface MicrophoneErrorOptions extends SanasErrorOptions {
+  /** Why the microphone could not be used. Defaults to "unknown". */
+  reason?: MicrophoneErrorReason;
+}
+
+/** The microphone could not be opened or read. */
+export class MicrophoneError extends SanasError {
+  readonly reason: MicrophoneErrorReason;
+
+  constructor(message: string, options: MicrophoneErrorOptions = {}) {
+    super("microphone", message, options);
+    this.name = "MicrophoneError";
+    this.reason = options.reason ?? "unknown";
+  }
+}
+
+/** An AudioSource could not be used or read. */
+export class AudioSourceError extends SanasError {
+  constructor(message: string, options?: SanasErrorOptions) {
+    super("audio-source", message, options);
+    this.name = "AudioSourceError";
+  }
+}
+
+const ERROR_CLASSES: Record<
+  ErrorCode,
+  new (message: string, options?: SanasErrorOptions) => SanasError
+> = {
+  auth: AuthError,
+  permission: PermissionError,
+  network: NetworkError,
+  protocol: ProtocolError,
+  server: ServerError,
+  timeout: TimeoutError,
+  microphone: MicrophoneError,
+  "audio-source": AudioSourceError,
+};
+
+/** Create the SanasError subclass for `code`. */
+export function createError(
+  code: ErrorCode,
+  message: string,
+  options?: SanasErrorOptions,
+): SanasError {
+  return new ERROR_CLASSES[code](message, options);
+}
+
+/** Classify an HTTP status, or a server error code that follows HTTP. */
+export function errorFromStatus(
+  status: number | undefined,
+  message: string,
+  options: SanasErrorOptions = {},
+): SanasError {
+  const code: ErrorCode =
+    status === 401
+      ? "auth"
+      : status === 403
+        ? "permission"
+        : status === 408
+          ? "timeout"
+          : status !== undefined && status >= 400 && status < 500
+            ? "protocol"
+            : "server";
+  return createError(code, message, { ...options, status });
+}
+
+function describeCause(cause: unknown): string | undefined {
+  if (cause === undefined || cause === null) return undefined;
+  return cause instanceof Error ? cause.message : String(cause);
+}
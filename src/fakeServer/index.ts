@@ -0,0 +1,660 @@
+import { randomUUID } from "crypto";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+import {
+  IdentifiedLanguage,
+  Language,
+  LTMessage,
+  SessionTokenScope,
+  WSAuthMessage,
+  WSMessage,
+  WSOutboundMessage,
+} from "../types";
+import { FakeSessionEvents, FakeTranslationSession } from "./session";
+import { acceptWebSocket, ServerWebSocket } from "./webSocket";
+
+const DEFAULT_LANGUAGES: Language[] = [
+  { longCode: "en-US", shortCode: "en", name: "English", support: "stable" },
+  { longCode: "es-ES", shortCode: "es", name: "Spanish", support: "stable" },
+  { longCode: "fr-FR", shortCode: "fr", name: "French", support: "stable" },
+  { longCode: "de-DE", shortCode: "de", name: "German", support: "beta" },
+  { longCode: "ja-JP", shortCode: "ja", name: "Japanese", support: "alpha" },
+];
+
+const DEFAULT_TRANSCRIPT = "hello this is a test of the translation server";
+
+const DEFAULT_SESSION_TOKEN_TTL_S = 600;
+const MAX_SESSION_TOKEN_TTL_S = 3600;
+
+export interface FakeLTServerWebRTC {
+  /** RTCPeerConnection implementation for Node, e.g. from `werift` or `wrtc`. */
+  RTCPeerConnection: new () => RTCPeerConnection;
+  /**
+   * Create the translated audio stream sent back to the client. `write`
+   * receives the generated tone as Int16 PCM. Without this hook the server
+   * sends no audio track and WebRTC clients will not finish connecting.
+   */
+  createOutputAudio?: (sampleRate: number) => {
+    stream: MediaStream;
+    write(samples: Int16Array): void;
+    close?(): void;
+  };
+}
+
+export interface FakeLTServerOptions {
+  /** Port to listen on. Defaults to 0 (a random free port). */
+  port?: number;
+  /** Host to bind. Defaults to 127.0.0.1. */
+  host?: string;
+  /** Accepted API keys. Any non-empty key is accepted when omitted. */
+  apiKeys?: string[];
+  /** Accepted access tokens. Any non-empty token is accepted when omitted. */
+  accessTokens?: string[];
+  /** Languages returned by /v2/languages/list. */
+  languages?: Language[];
+  /** Delay added to every response and server message, in ms. */
+  latencyMs?: number;
+  /** Accept binary audio frames when the client offers them. Defaults to true. */
+  binaryAudio?: boolean;
+  /** Drop each session's connection, without a close handshake, after this many ms. */
+  dropAfterMs?: number;
+  /** Space-separated words "recognized" in order, cycling. */
+  transcript?: string;
+  /** Input audio (ms) that produces one word. Defaults to 500. */
+  wordMs?: number;
+  /** Words per utterance before a speech_stop. Defaults to 5. */
+  wordsPerUtterance?: number;
+  /** Frequency of the generated output tone in Hz. Defaults to 440. */
+  toneHz?: number;
+  /** Fake translation of one word. Defaults to prefixing the target language. */
+  translate?: (word: string, langIn: string, langOut: string) => string;
+  /** ICE servers returned by /v2/turn/credentials. Defaults to none. */
+  iceServers?: {
+    urls: string | string[];
+    username?: string;
+    credential?: string;
+  }[];
+  /** Enables the /session endpoint. Node has no built-in WebRTC. */
+  webrtc?: FakeLTServerWebRTC;
+}
+
+export interface FakeLTServer {
+  /** HTTP endpoint to pass as the client's `endpoint`. */
+  readonly url: string;
+  readonly port: number;
+  /** Number of live WebSocket and WebRTC sessions. */
+  readonly sessionCount: number;
+  /** Drop every live session without a close handshake. */
+  dropConnections(): void;
+  close(): Promise<void>;
+}
+
+interface LiveSession {
+  drop(): void;
+}
+
+interface IssuedSessionToken {
+  expiresAt: number;
+  scopes: SessionTokenScope[];
+}
+
+function delay(ms: number): Promise<void> {
+  return ms > 0
+    ? new Promise((resolve) => setTimeout(resolve, ms))
+    : Promise.resolve();
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Start a local stand-in for the LT server, implementing /v2/languages/list,
+ * /v2/turn/credentials, the /v2/consecutive WebSocket protocol and (given a WebRTC implementation)
+ * /session, with canned transcription, fake translation and tone audio.
+ * Node.js only.
+ */
+export async function startFakeLTServer(
+  options: FakeLTServerOptions = {},
+): Promise<FakeLTServer> {
+  const sessions = new Set<LiveSession>();
+  const sessionTokens = new Map<string, IssuedSessionToken>();
+  const latencyMs = options.latencyMs ?? 0;
+
+  const sessionOptions = {
+    transcript: (options.transcript ?? DEFAULT_TRANSCRIPT).split(/\s+/),
+    wordMs: options.wordMs ?? 500,
+    wordsPerUtterance: options.wordsPerUtterance ?? 5,
+    toneHz: options.toneHz ?? 440,
+    translate:
+      options.translate ??
+      ((word: string, _langIn: string, langOut: string) =>
+        `${langOut.split("-")[0]}:${word}`),
+  };
+
+  const isAuthorized = (
+    apiKey: string | null | undefined,
+    token: string | null | undefined,
+    scope: SessionTokenScope,
+  ) => {
+    const sessionToken = token ? sessionTokens.get(token) : undefined;
+    if (sessionToken) {
+      return (
+        sessionToken.expiresAt > Date.now() &&
+        sessionToken.scopes.includes(scope)
+      );
+    }
+    if (token)
+      return !options.accessTokens || options.accessTokens.includes(token);
+    if (apiKey) return !options.apiKeys || options.apiKeys.includes(apiKey);
+    return false;
+  };
+
+  const requestApiKey = (req: IncomingMessage) => {
+    const apiKey = req.headers["x-api-key"];
+    return typeof apiKey === "string" ? apiKey : null;
+  };
+
+  const isRequestAuthorized = (
+    req: IncomingMessage,
+    scope: SessionTokenScope,
+  ) => {
+    const auth = req.headers["authorization"];
+    const token =
+      typeof auth === "string" && auth.startsWith("Bearer ")
+        ? auth.slice("Bearer ".length)
+        : null;
+    return isAuthorized(requestApiKey(req), token, scope);
+  };
+
+  const track = (session: LiveSession) => {
+    sessions.add(session);
+    if (options.dropAfterMs !== undefined) {
+      const timer = setTimeout(() => session.drop(), options.dropAfterMs);
+      const drop = session.drop;
+      session.drop = () => {
+        clearTimeout(timer);
+        drop();
+      };
+    }
+    return () => sessions.delete(session);
+  };
+
+  // Language detection always "identifies" the configured input language.
+  const identifyLanguage = (langIn: string): IdentifiedLanguage[] => {
+    const language = (options.languages ?? DEFAULT_LANGUAGES).find(
+      (l) => l.longCode === langIn,
+    );
+    return [
+      {
+        short_code: language?.shortCode ?? langIn.split("-")[0],
+        name: language?.name ?? langIn,
+        probability: 1,
+      },
+    ];
+  };
+
+  const handleLanguages = (req: IncomingMessage, res: ServerResponse) => {
+    if (!isRequestAuthorized(req, "languages")) {
+      sendJson(res, 403, { success: false, error: "Forbidden" });
+      return;
+    }
+    sendJson(res, 200, {
+      success: true,
+      data: {
+        languages: (options.languages ?? DEFAULT_LANGUAGES).map((l) => ({
+          long_code: l.longCode,
+          short_code: l.shortCode,
+          name: l.name,
+          support: l.support,
+        })),
+      },
+    });
+  };
+
+  const handleTurnCredentials = (req: IncomingMessage, res: ServerResponse) => {
+    if (!isRequestAuthorized(req, "translate")) {
+      sendJson(res, 403, { success: false, error: "Forbidden" });
+      return;
+    }
+    sendJson(res, 200, {
+      success: true,
+      data: { ice_servers: options.iceServers ?? [] },
+    });
+  };
+
+  const handleSession = async (req: IncomingMessage, res: ServerResponse) => {
+    const webrtc = options.webrtc;
+    if (!webrtc) {
+      sendJson(res, 501, {
+        error: "WebRTC is not available: start the server with `webrtc`.",
+      });
+      return;
+    }
+    if (!isRequestAuthorized(req, "translate")) {
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    const offer = JSON.parse(await readBody(req));
+    const answer = await startWebRTCSession(webrtc, offer);
+    sendJson(res, 200, answer);
+  };
+
+  // Only API keys may mint session tokens, never another token.
+  const handleSessionTokens = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+  ) => {
+    const apiKey = requestApiKey(req);
+    if (!apiKey || !isAuthorized(apiKey, null, "translate")) {
+      sendJson(res, 401, { success: false, error: "Unauthorized" });
+      return;
+    }
+
+    const body = JSON.parse((await readBody(req)) || "{}");
+    const ttlSeconds = Math.min(
+      body.ttl_seconds ?? DEFAULT_SESSION_TOKEN_TTL_S,
+      MAX_SESSION_TOKEN_TTL_S,
+    );
+    const scopes: SessionTokenScope[] = body.scopes ?? [
+      "translate",
+      "languages",
+    ];
+    const token = `st_${randomUUID()}`;
+    sessionTokens.set(token, {
+      expiresAt: Date.now() + ttlSeconds * 1000,
+      scopes,
+    });
+    sendJson(res, 200, {
+      success: true,
+      data: { token, expires_in: ttlSeconds, scopes },
+    });
+  };
+
+  const startWebRTCSession = async (
+    webrtc: FakeLTServerWebRTC,
+    offer: {
+      sdp: string;
+      input_sample_rate?: number;
+      output_sample_rate?: number;
+    },
+  ) => {
+    const sessionId = randomUUID();
+    const peer = new webrtc.RTCPeerConnection();
+    const outputSampleRate = offer.output_sample_rate ?? 16000;
+    const output = webrtc.createOutputAudio?.(outputSampleRate);
+    if (output) {
+      for (const t of output.stream.getAudioTracks()) {
+        peer.addTrack(t, output.stream);
+      }
+    }
+
+    let channel: RTCDataChannel | null = null;
+    let wordTimer: ReturnType<typeof setInterval> | null = null;
+    const send = (message: LTMessage) => {
+      void delay(latencyMs).then(() => {
+        if (channel?.readyState === "open") {
+          channel.send(JSON.stringify(message));
+        }
+      });
+    };
+
+    const session = new FakeTranslationSession(
+      sessionOptions,
+      ltEvents(send, (samples) => output?.write(samples)),
+    );
+
+    const stopWords = () => {
+      if (wordTimer) clearInterval(wordTimer);
+      wordTimer = null;
+    };
+
+    const untrack = track({
+      drop: () => {
+        stopWords();
+        output?.close?.();
+        peer.close();
+        untrack();
+      },
+    });
+
+    peer.onconnectionstatechange = () => {
+      if (
+        peer.connectionState === "failed" ||
+        peer.connectionState === "closed"
+      ) {
+        stopWords();
+        output?.close?.();
+        untrack();
+      }
+    };
+
+    peer.ondatachannel = (event) => {
+      channel = event.channel;
+      channel.onmessage = (msg: MessageEvent) => {
+        const parsed = LTMessage.safeParse(JSON.parse(String(msg.data)));
+        if (!parsed.success) return;
+        const message = parsed.data;
+
+        if (message.type === "reset") {
+          const { reset } = message;
+          session.configure(reset.lang_in, reset.lang_out, outputSampleRate);
+          send({ type: "ready", ready: { id: reset.id } });
+          send({
+            type: "speech_languages",
+            speech_languages: {
+              lang_in: reset.lang_in,
+              lang_out: reset.lang_out,
+            },
+          });
+          if (reset.detect_languages) {
+            send({
+              type: "languages",
+              languages: { languages: identifyLanguage(reset.lang_in) },
+            });
+          }
+          // Input audio cannot be read portably, so words follow the clock.
+          if (!wordTimer) {
+            wordTimer = setInterval(
+              () => session.addInput(sessionOptions.wordMs),
+              sessionOptions.wordMs,
+            );
+          }
+        } else if (message.type === "recording") {
+          if (message.recording === "stop") {
+            stopWords();
+            session.endUtterance();
+          }
+        } else if (message.type === "text") {
+          session.addText(message.text.text, message.text.synthesize === true);
+        }
+      };
+    };
+
+    await peer.setRemoteDescription({ type: "offer", sdp: offer.sdp });
+    const answer = await peer.createAnswer();
+    await peer.setLocalDescription(answer);
+    await waitForIceGathering(peer);
+
+    return {
+      type: "answer",
+      sdp: peer.localDescription?.sdp ?? answer.sdp,
+      session_id: sessionId,
+    };
+  };
+
+  const handleConsecutive = (ws: ServerWebSocket, url: URL) => {
+    // Credentials arrive in the query string (older clients) or in an auth
+    // message that must come first.
+    const queryApiKey = url.searchParams.get("api_key");
+    const queryToken = url.searchParams.get("token");
+    let authenticated = false;
+    if (queryApiKey || queryToken) {
+      if (!isAuthorized(queryApiKey, queryToken, "translate")) {
+        ws.close(1008, "Unauthorized");
+        return;
+      }
+      authenticated = true;
+    }
+
+    const authenticate = (data: string | Buffer) => {
+      if (Buffer.isBuffer(data)) return false;
+      let parsed;
+      try {
+        parsed = WSAuthMessage.safeParse(JSON.parse(data));
+      } catch {
+        return false;
+      }
+      return (
+        parsed.success &&
+        isAuthorized(parsed.data.api_key, parsed.data.token, "translate")
+      );
+    };
+
+    const sessionId = randomUUID();
+    let inputSampleRate = 16000;
+    let binaryAudio = false;
+    const send = (message: WSMessage | Buffer) => {
+      void delay(latencyMs).then(() =>
+        ws.send(Buffer.isBuffer(message) ? message : JSON.stringify(message)),
+      );
+    };
+
+    const session = new FakeTranslationSession(sessionOptions, {
+      transcription: (complete, utteranceIdx, typed) =>
+        send({
+          type: "transcription",
+          complete,
+          partial: [],
+          utterance_idx: utteranceIdx,
+          typed: typed || undefined,
+        }),
+      translation: (complete, utteranceIdx) =>
+        send({
+          type: "translation",
+          complete,
+          partial: [],
+          utterance_idx: utteranceIdx,
+        }),
+      audio: (samples) => {
+        const pcm = Buffer.from(
+          samples.buffer,
+          samples.byteOffset,
+          samples.byteLength,
+        );
+        send(
+          binaryAudio ? pcm : { type: "audio", data: pcm.toString("base64") },
+        );
+      },
+      speechDelimiter: (time, transcription, translation) =>
+        send({ type: "speech_delimiter", time, transcription, translation }),
+      speechStop: (utteranceIdx) =>
+        send({ type: "speech_stop", utterance_idx: utteranceIdx }),
+    });
+
+    const untrack = track({ drop: () => ws.terminate() });
+    ws.onclose = () => untrack();
+
+    ws.onmessage = (data) => {
+      if (!authenticated) {
+        authenticated = authenticate(data);
+        if (!authenticated) ws.close(1008, "Unauthorized");
+        return;
+      }
+
+      if (Buffer.isBuffer(data)) {
+        session.addInput((data.length / 2 / inputSampleRate) * 1000);
+        return;
+      }
+
+      let parsed;
+      try {
+        parsed = WSOutboundMessage.safeParse(JSON.parse(data));
+      } catch {
+        parsed = null;
+      }
+      if (!parsed?.success) {
+        send({ type: "error", message: "Invalid message", code: 400 });
+        return;
+      }
+
+      const message = parsed.data;
+      switch (message.type) {
+        case "config": {
+          inputSampleRate = message.input_sample_rate;
+          session.configure(
+            message.lang_in,
+            message.lang_out,
+            message.output_sample_rate,
+          );
+          binaryAudio =
+            message.binary_audio === true && options.binaryAudio !== false;
+          send({
+            type: "ready",
+            id: message.id,
+            session_id: sessionId,
+            binary_audio: binaryAudio,
+          });
+          send({
+            type: "languages",
+            lang_in: message.lang_in,
+            lang_out: message.lang_out,
+            languages: message.detect_languages
+              ? identifyLanguage(message.lang_in)
+              : undefined,
+          });
+          break;
+        }
+        case "audio": {
+          const bytes = Buffer.from(message.data, "base64").length;
+          session.addInput((bytes / 2 / inputSampleRate) * 1000);
+          break;
+        }
+        case "ping":
+          send({ type: "pong" });
+          break;
+        case "auth":
+          break;
+        case "recording":
+          if (message.recording === "stop") session.endUtterance();
+          break;
+        case "text":
+          session.addText(message.text, message.synthesize === true);
+          break;
+        case "stop":
+          session.endUtterance();
+          void delay(latencyMs).then(() => ws.close(1000));
+          break;
+      }
+    };
+  };
+
+  const server = createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader(
+      "Access-Control-Allow-Headers",
+      "Authorization, Content-Type, X-API-Key, x-lang",
+    );
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    void delay(latencyMs)
+      .then(async () => {
+        if (req.method === "POST" && path === "/v2/languages/list") {
+          handleLanguages(req, res);
+        } else if (req.method === "POST" && path === "/v2/turn/credentials") {
+          handleTurnCredentials(req, res);
+        } else if (req.method === "POST" && path === "/v2/session-tokens") {
+          await handleSessionTokens(req, res);
+        } else if (req.method === "POST" && path === "/session") {
+          await handleSession(req, res);
+        } else {
+          sendJson(res, 404, { error: "Not found" });
+        }
+      })
+      .catch((err) => {
+        sendJson(res, 500, { error: String(err) });
+      });
+  });
+
+  server.on("upgrade", (req, socket) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== "/v2/consecutive") {
+      socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+      return;
+    }
+    const ws = acceptWebSocket(req, socket);
+    if (ws) handleConsecutive(ws, url);
+  });
+
+  const host = options.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, host, () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${port}`,
+    port,
+    get sessionCount() {
+      return sessions.size;
+    },
+    dropConnections() {
+      for (const session of [...sessions]) {
+        session.drop();
+      }
+    },
+    close() {
+      for (const session of [...sessions]) {
+        session.drop();
+      }
+      const closed = new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())),
+      );
+      // Node 18 keeps idle keep-alive connections open, and close() waits.
+      server.closeIdleConnections();
+      return closed;
+    },
+  };
+}
+
+function ltEvents(
+  send: (message: LTMessage) => void,
+  writeAudio: (samples: Int16Array) => void,
+): FakeSessionEvents {
+  return {
+    transcription: (complete, utteranceIdx, typed) =>
+      send({
+        type: "transcription",
+        transcription: {
+          complete,
+          partial: [],
+          utterance_idx: utteranceIdx,
+          typed: typed || undefined,
+        },
+      }),
+    translation: (complete, utteranceIdx) =>
+      send({
+        type: "translation",
+        translation: { complete, partial: [], utterance_idx: utteranceIdx },
+      }),
+    audio: writeAudio,
+    speechDelimiter: (time, transcription, translation) =>
+      send({
+        type: "speech_delimiter",
+        speech_delimiter: { time, transcription, translation },
+      }),
+    speechStop: () => send({ type: "speech_stop", speech_stop: {} }),
+  };
+}
+
+function waitForIceGathering(peer: RTCPeerConnection): Promise<void> {
+  if (peer.iceGatheringState === "complete") return Promise.resolve();
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, 2000);
+    peer.addEventListener("icegatheringstatechange", () => {
+      if (peer.iceGatheringState === "complete") {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+  });
+}
@@ -0,0 +1,165 @@
+import { Delimiter, Word } from "../types";
+
+export interface FakeSessionOptions {
+  /** Words "recognized" in order, cycling. */
+  transcript: string[];
+  /** Input audio (ms) that produces one word. */
+  wordMs: number;
+  /** Words per utterance before a speech_stop. */
+  wordsPerUtterance: number;
+  /** Frequency of the generated output tone in Hz. */
+  toneHz: number;
+  /** Fake translation for one word. */
+  translate: (word: string, langIn: string, langOut: string) => string;
+}
+
+/** Protocol-independent events, mapped to WS or data channel messages. */
+export interface FakeSessionEvents {
+  transcription(complete: Word[], utteranceIdx: number, typed: boolean): void;
+  translation(complete: Word[], utteranceIdx: number): void;
+  audio(samples: Int16Array): void;
+  speechDelimiter(
+    time: number,
+    transcription: Delimiter,
+    translation: Delimiter,
+  ): void;
+  speechStop(utteranceIdx: number): void;
+}
+
+/**
+ * Produces canned transcription, translation, tone audio and speech
+ * delimiters in proportion to the input audio it is fed.
+ */
+export class FakeTranslationSession {
+  langIn = "en-US";
+  langOut = "es-ES";
+  outputSampleRate = 16000;
+
+  private options: FakeSessionOptions;
+  private events: FakeSessionEvents;
+  private utteranceIdx = 0;
+  private wordIdx = 0;
+  private transcriptIdx = 0;
+  private inputMs = 0;
+  private outputTime = 0;
+
+  constructor(options: FakeSessionOptions, events: FakeSessionEvents) {
+    this.options = options;
+    this.events = events;
+  }
+
+  configure(langIn: string, langOut: string, outputSampleRate: number): void {
+    this.langIn = langIn;
+    this.langOut = langOut;
+    this.outputSampleRate = outputSampleRate;
+  }
+
+  /** Account for received input audio, emitting a word per wordMs. */
+  addInput(ms: number): void {
+    this.inputMs += ms;
+    while (this.inputMs >= this.options.wordMs) {
+      this.inputMs -= this.options.wordMs;
+      this.emitWord();
+    }
+  }
+
+  /** Finish the current utterance, if it has any words. */
+  endUtterance(): void {
+    if (this.wordIdx === 0) return;
+    this.events.speechStop(this.utteranceIdx);
+    this.utteranceIdx++;
+    this.wordIdx = 0;
+  }
+
+  /**
+   * Translate typed text as an utterance of its own, voiced if `synthesize`.
+   * Unvoiced text is marked spoken once the audio queued before it plays.
+   */
+  addText(text: string, synthesize: boolean): void {
+    const words = text.split(/\s+/).filter((word) => word.length > 0);
+    if (words.length === 0) return;
+    this.endUtterance();
+
+    const { wordMs } = this.options;
+    const transcription: Word[] = [];
+    const translation: Word[] = [];
+    for (const word of words) {
+      const start = this.outputTime;
+      const end = synthesize ? start + wordMs / 1000 : start;
+      transcription.push({ word, start, end });
+      translation.push({
+        word: this.options.translate(word, this.langIn, this.langOut),
+        start,
+        end,
+      });
+      this.outputTime = end;
+    }
+
+    this.events.transcription(transcription, this.utteranceIdx, true);
+    this.events.translation(translation, this.utteranceIdx);
+    // Voiced words are marked spoken one at a time, as their audio plays.
+    const firstSpoken = synthesize ? 1 : words.length;
+    for (let wordIdx = firstSpoken; wordIdx <= words.length; wordIdx++) {
+      if (synthesize) this.events.audio(this.tone(wordMs));
+      const boundary: Delimiter = {
+        utterance_idx: this.utteranceIdx,
+        word_idx: wordIdx,
+        char_idx: 0,
+      };
+      this.events.speechDelimiter(
+        translation[wordIdx - 1].end,
+        boundary,
+        boundary,
+      );
+    }
+    this.events.speechStop(this.utteranceIdx);
+    this.utteranceIdx++;
+  }
+
+  private emitWord(): void {
+    const { transcript, wordMs, wordsPerUtterance } = this.options;
+    const word = transcript[this.transcriptIdx++ % transcript.length];
+    const start = this.outputTime;
+    const end = start + wordMs / 1000;
+
+    this.events.transcription([{ word, start, end }], this.utteranceIdx, false);
+    this.events.translation(
+      [
+        {
+          word: this.options.translate(word, this.langIn, this.langOut),
+          start,
+          end,
+        },
+      ],
+      this.utteranceIdx,
+    );
+    this.events.audio(this.tone(wordMs));
+
+    this.outputTime = end;
+    this.wordIdx++;
+    const boundary: Delimiter = {
+      utterance_idx: this.utteranceIdx,
+      word_idx: this.wordIdx,
+      char_idx: 0,
+    };
+    this.events.speechDelimiter(end, boundary, boundary);
+
+    if (this.wordIdx >= wordsPerUtterance) {
+      this.endUtterance();
+    }
+  }
+
+  private tone(ms: number): Int16Array {
+    const length = Math.round((this.outputSampleRate * ms) / 1000);
+    const samples = new Int16Array(length);
+    const fade = Math.min(length / 2, this.outputSampleRate / 100);
+    for (let i = 0; i < length; i++) {
+      const envelope = Math.min(1, i / fade, (length - i) / fade);
+      const value = Math.sin(
+        (2 * Math.PI * this.options.toneHz * i) / this.outputSampleRate,
+      );
+      samples[i] = Math.round(value * envelope * 0.2 * 0x7fff);
+    }
+    return samples;
+  }
+}
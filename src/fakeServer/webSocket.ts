@@ -0,0 +1,212 @@
+import { createHash } from "crypto";
+import { IncomingMessage } from "http";
+import { Duplex } from "stream";
+
+// Minimal RFC 6455 server side: enough for the JSON protocol spoken by
+// WebSocketTransport, without pulling in a WebSocket dependency.
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+export const Opcode = {
+  Continuation: 0x0,
+  Text: 0x1,
+  Binary: 0x2,
+  Close: 0x8,
+  Ping: 0x9,
+  Pong: 0xa,
+} as const;
+
+export interface Frame {
+  opcode: number;
+  payload: Buffer;
+}
+
+/** Encode a single unfragmented frame. Clients must mask, servers must not. */
+export function encodeFrame(
+  opcode: number,
+  payload: Buffer,
+  mask = false,
+): Buffer {
+  const length = payload.length;
+  const lengthBytes = length < 126 ? 0 : length < 65536 ? 2 : 8;
+  const header = Buffer.alloc(2 + lengthBytes + (mask ? 4 : 0));
+
+  header[0] = 0x80 | opcode;
+  const maskBit = mask ? 0x80 : 0;
+  if (lengthBytes === 0) {
+    header[1] = maskBit | length;
+  } else if (lengthBytes === 2) {
+    header[1] = maskBit | 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = maskBit | 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+
+  if (!mask) return Buffer.concat([header, payload]);
+
+  const key = header.subarray(2 + lengthBytes);
+  for (let i = 0; i < 4; i++) key[i] = Math.floor(Math.random() * 256);
+  const masked = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) masked[i] = payload[i] ^ key[i % 4];
+  return Buffer.concat([header, masked]);
+}
+
+/** Incrementally parses frames, unmasking and reassembling fragments. */
+export class FrameParser {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentOpcode = 0;
+
+  push(chunk: Buffer): Frame[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const frames: Frame[] = [];
+
+    for (;;) {
+      if (this.buffer.length < 2) break;
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) break;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) break;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) break;
+
+      const payload = Buffer.from(
+        this.buffer.subarray(offset, offset + length),
+      );
+      if (masked) {
+        for (let i = 0; i < length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i % 4)];
+        }
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+
+      if (opcode >= Opcode.Close) {
+        // Control frames may be interleaved with fragments.
+        frames.push({ opcode, payload });
+      } else if (!fin) {
+        if (opcode !== Opcode.Continuation) this.fragmentOpcode = opcode;
+        this.fragments.push(payload);
+      } else if (opcode === Opcode.Continuation) {
+        frames.push({
+          opcode: this.fragmentOpcode,
+          payload: Buffer.concat([...this.fragments, payload]),
+        });
+        this.fragments = [];
+      } else {
+        frames.push({ opcode, payload });
+      }
+    }
+
+    return frames;
+  }
+}
+
+/** A server-side WebSocket connection. */
+export class ServerWebSocket {
+  onmessage: ((data: string | Buffer) => void) | null = null;
+  onclose: ((code: number) => void) | null = null;
+
+  private socket: Duplex;
+  private parser = new FrameParser();
+  private closed = false;
+
+  constructor(socket: Duplex) {
+    this.socket = socket;
+    socket.on("data", (chunk: Buffer) => this.handleData(chunk));
+    socket.on("close", () => this.finish(1006));
+    socket.on("error", () => this.finish(1006));
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(data: string | Buffer): void {
+    if (this.closed) return;
+    const opcode = typeof data === "string" ? Opcode.Text : Opcode.Binary;
+    const payload = typeof data === "string" ? Buffer.from(data) : data;
+    this.socket.write(encodeFrame(opcode, payload));
+  }
+
+  /** Close with a status code, following the closing handshake. */
+  close(code = 1000, reason = ""): void {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.socket.write(encodeFrame(Opcode.Close, payload));
+    this.socket.end();
+    this.finish(code);
+  }
+
+  /** Drop the TCP connection without a closing handshake. */
+  terminate(): void {
+    this.socket.destroy();
+    this.finish(1006);
+  }
+
+  private handleData(chunk: Buffer): void {
+    for (const frame of this.parser.push(chunk)) {
+      switch (frame.opcode) {
+        case Opcode.Text:
+          this.onmessage?.(frame.payload.toString("utf8"));
+          break;
+        case Opcode.Binary:
+          this.onmessage?.(frame.payload);
+          break;
+        case Opcode.Ping:
+          this.socket.write(encodeFrame(Opcode.Pong, frame.payload));
+          break;
+        case Opcode.Close: {
+          const code =
+            frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : 1005;
+          this.close(code);
+          break;
+        }
+      }
+    }
+  }
+
+  private finish(code: number): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onclose?.(code);
+  }
+}
+
+/** Complete the opening handshake for an HTTP upgrade request. */
+export function acceptWebSocket(
+  req: IncomingMessage,
+  socket: Duplex,
+): ServerWebSocket | null {
+  const key = req.headers["sec-websocket-key"];
+  if (typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + HANDSHAKE_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+  return new ServerWebSocket(socket);
+}
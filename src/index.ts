@@ -1,5 +1,12 @@
 export * from "./audio";
+export * from "./AudioDeviceManager";
+export * from "./audioSource";
+export * from "./errors";
+export * from "./FallbackTransport";
+export * from "./MockTransport";
+export * from "./pushToTalk";
 export * from "./SanasTranslationClient";
+export * from "./TranslationFanOut";
 export * from "./TranslationState";
 export * from "./types";
 export * from "./WebRTCTransport";
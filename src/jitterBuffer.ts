@@ -0,0 +1,171 @@
+export interface JitterBufferOptions {
+  /** Audio buffered before playback starts or resumes, in seconds. */
+  targetLatency: number;
+  /** Queued audio beyond which playback catches up, in seconds. */
+  maxLatency: number;
+  catchUp: "drop" | "compress";
+  /** Play samples from `startTime`. Returns a function that cancels them. */
+  play: (
+    samples: Int16Array,
+    startTime: number,
+    playbackRate: number,
+  ) => () => void;
+}
+
+/** A stretch of the server's audio timeline and where it plays locally. */
+interface Segment {
+  serverTime: number;
+  localTime: number;
+  /** Infinity for skipped audio, which takes no time to "play". */
+  rate: number;
+  /** Seconds of server audio. */
+  duration: number;
+  cancel?: () => void;
+}
+
+// Speed of stale audio while compressing; higher sounds noticeably rushed.
+const COMPRESS_RATE = 1.25;
+// Running dry for longer than this is a pause in speech, not an underrun.
+const MAX_UNDERRUN_GAP = 0.5;
+// Delimiters trail their audio closely, so older segments are not needed.
+const MAX_SEGMENTS = 256;
+
+/**
+ * Schedules translated audio for playback. Playback starts, and resumes after
+ * running dry, `targetLatency` after the chunk arrives, which absorbs network
+ * jitter. When a burst of late chunks queues more than `maxLatency`, the
+ * queued audio that has not started is skipped, or played faster until the
+ * latency is back at the target.
+ *
+ * Times on the server's audio timeline, such as speech delimiters', map to
+ * the local time they play at through localTime().
+ */
+export class JitterBuffer {
+  underruns = 0;
+  overruns = 0;
+  /** Seconds of audio skipped to catch up. */
+  droppedTime = 0;
+  /** Seconds of playback saved by playing audio faster. */
+  compressedTime = 0;
+
+  private options: JitterBufferOptions;
+  private endTime = 0;
+  private receivedTime = 0;
+  private playing = false;
+  private catchingUp = false;
+  private segments: Segment[] = [];
+
+  constructor(options: JitterBufferOptions) {
+    this.options = options;
+  }
+
+  /** When the scheduled audio finishes playing. */
+  get playbackEndTime(): number {
+    return this.endTime;
+  }
+
+  /** Seconds of audio scheduled ahead of `now`. */
+  latency(now: number): number {
+    return Math.max(0, this.endTime - now);
+  }
+
+  /** Schedule a chunk of server audio that arrived at `now`. */
+  push(now: number, samples: Int16Array, sampleRate: number): void {
+    const { targetLatency, maxLatency, catchUp } = this.options;
+    const serverTime = this.receivedTime;
+    const duration = samples.length / sampleRate;
+    this.receivedTime += duration;
+
+    let startTime = this.endTime;
+    if (startTime <= now) {
+      if (this.playing && now - startTime < MAX_UNDERRUN_GAP) {
+        this.underruns++;
+      }
+      startTime = now + targetLatency;
+    }
+    this.playing = true;
+
+    const latency = startTime - now;
+    if (latency + duration > maxLatency) {
+      if (!this.catchingUp) this.overruns++;
+      this.catchingUp = true;
+    } else if (latency <= targetLatency) {
+      this.catchingUp = false;
+    }
+
+    let rate = 1;
+    if (this.catchingUp && catchUp === "drop") {
+      // This chunk ends targetLatency from now, unless what is already
+      // playing runs longer.
+      startTime = Math.max(
+        this.skipQueued(now),
+        now + targetLatency - duration,
+      );
+      this.catchingUp = false;
+    } else if (this.catchingUp) {
+      rate = COMPRESS_RATE;
+      this.compressedTime += duration - duration / rate;
+    }
+
+    const cancel = this.options.play(samples, startTime, rate);
+    this.endTime = startTime + duration / rate;
+    this.addSegment({
+      serverTime,
+      localTime: startTime,
+      rate,
+      duration,
+      cancel,
+    });
+  }
+
+  /**
+   * Local time at which `serverTime` on the server's audio timeline plays.
+   * Audio not received yet is assumed to follow the scheduled audio.
+   */
+  localTime(serverTime: number): number {
+    if (serverTime >= this.receivedTime) {
+      return this.endTime + (serverTime - this.receivedTime);
+    }
+    for (let i = this.segments.length - 1; i >= 0; i--) {
+      const segment = this.segments[i];
+      if (segment.serverTime <= serverTime) {
+        return (
+          segment.localTime + (serverTime - segment.serverTime) / segment.rate
+        );
+      }
+    }
+    return this.segments[0]?.localTime ?? this.endTime;
+  }
+
+  /** Cancel queued audio that has not started. Returns when playback is free. */
+  private skipQueued(now: number): number {
+    let skippedFrom: number | null = null;
+    while (this.segments.length > 0) {
+      const last = this.segments[this.segments.length - 1];
+      if (last.localTime <= now) break;
+      this.segments.pop();
+      last.cancel?.();
+      if (last.rate !== Infinity) this.droppedTime += last.duration;
+      skippedFrom = last.serverTime;
+    }
+
+    const playing = this.segments[this.segments.length - 1];
+    const resumeAt = playing
+      ? Math.max(now, playing.localTime + playing.duration / playing.rate)
+      : now;
+    if (skippedFrom !== null) {
+      this.addSegment({
+        serverTime: skippedFrom,
+        localTime: resumeAt,
+        rate: Infinity,
+        duration: 0,
+      });
+    }
+    return resumeAt;
+  }
+
+  private addSegment(segment: Segment): void {
+    this.segments.push(segment);
+    if (this.segments.length > MAX_SEGMENTS) this.segments.shift();
+  }
+}
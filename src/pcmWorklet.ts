@@ -0,0 +1,161 @@
+import { FrameMs } from "./types";
+
+const DEFAULT_FRAME_MS = 20;
+
+// Worklets run in their own scope, so the processor cannot import from this
+// package: Resampler and float32ToInt16 are copies of those in ./audio.
+const PCM_PROCESSOR_CODE = `
+function float32ToInt16(float32) {
+  const int16 = new Int16Array(float32.length);
+  for (let i = 0; i < float32.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, float32[i]));
+    int16[i] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+  }
+  return int16;
+}
+
+class Resampler {
+  constructor(inputRate, outputRate) {
+    this.step = inputRate / outputRate;
+    this.resolution = 256;
+
+    const cutoff = 0.95 * Math.min(1, outputRate / inputRate);
+    const zeroCrossings = 16;
+    this.halfWidth = zeroCrossings / cutoff;
+
+    const size = Math.ceil(this.halfWidth * this.resolution);
+    this.table = new Float32Array(size + 2);
+    for (let i = 0; i <= size; i++) {
+      const t = i / this.resolution;
+      if (t > this.halfWidth) break;
+      const x = Math.PI * cutoff * t;
+      const sinc = x === 0 ? 1 : Math.sin(x) / x;
+      const w = (Math.PI * t) / this.halfWidth;
+      const window = 0.42 + 0.5 * Math.cos(w) + 0.08 * Math.cos(2 * w);
+      this.table[i] = cutoff * sinc * window;
+    }
+
+    const context = Math.ceil(this.halfWidth);
+    this.history = new Float32Array(context);
+    this.time = context;
+  }
+
+  process(input) {
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    const last = buffer.length - 1 - this.halfWidth;
+    let count = 0;
+    for (let t = this.time; t <= last; t += this.step) count++;
+
+    const output = new Float32Array(count);
+    let time = this.time;
+    for (let i = 0; i < count; i++) {
+      output[i] = this.interpolate(buffer, time);
+      time += this.step;
+    }
+
+    const consumed = Math.max(0, Math.floor(time - this.halfWidth));
+    this.history = buffer.slice(consumed);
+    this.time = time - consumed;
+    return output;
+  }
+
+  interpolate(buffer, time) {
+    const first = Math.max(0, Math.ceil(time - this.halfWidth));
+    const last = Math.min(buffer.length - 1, Math.floor(time + this.halfWidth));
+    let sum = 0;
+    for (let i = first; i <= last; i++) {
+      const position = Math.abs(time - i) * this.resolution;
+      const index = Math.floor(position);
+      const a = this.table[index];
+      sum += buffer[i] * (a + (this.table[index + 1] - a) * (position - index));
+    }
+    return sum;
+  }
+}
+
+class PcmProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { sampleRate: rate, frameMs } = options.processorOptions;
+    this.resampler = rate !== sampleRate ? new Resampler(sampleRate, rate) : null;
+    this.rate = rate;
+    this.frame = new Int16Array(Math.round((rate * frameMs) / 1000));
+    this.length = 0;
+    this.frameTime = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0][0];
+    if (!input) return true;
+
+    const samples = float32ToInt16(
+      this.resampler ? this.resampler.process(input) : input,
+    );
+    let offset = 0;
+    while (offset < samples.length) {
+      if (this.length === 0) this.frameTime = currentTime + offset / this.rate;
+      const count = Math.min(
+        samples.length - offset,
+        this.frame.length - this.length,
+      );
+      this.frame.set(samples.subarray(offset, offset + count), this.length);
+      this.length += count;
+      offset += count;
+
+      if (this.length === this.frame.length) {
+        const frame = this.frame;
+        this.port.postMessage({ samples: frame, time: this.frameTime }, [
+          frame.buffer,
+        ]);
+        this.frame = new Int16Array(frame.length);
+        this.length = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-processor', PcmProcessor);
+`;
+
+/** A frame of captured audio, as posted by the worklet. */
+export interface PcmFrame {
+  samples: Int16Array;
+  /** When the frame's first sample was captured, on the context's clock. */
+  time: number;
+}
+
+export interface PcmWorkletOptions {
+  /** Rate of the frames. Defaults to the context's rate. */
+  sampleRate?: number;
+  /** Defaults to 20. */
+  frameMs?: FrameMs;
+}
+
+/**
+ * Register the PCM capture worklet on the context and create a node that
+ * posts mono Int16 PcmFrames to its port, converted to `sampleRate` when the
+ * context runs at another rate. Frames are transferred, not copied, and hold
+ * `frameMs` of audio each, so the main thread handles tens of messages a
+ * second instead of one per 128-sample render quantum.
+ */
+export async function createPcmWorkletNode(
+  ctx: AudioContext,
+  options: PcmWorkletOptions = {},
+): Promise<AudioWorkletNode> {
+  const blob = new Blob([PCM_PROCESSOR_CODE], {
+    type: "application/javascript",
+  });
+  const workletUrl = URL.createObjectURL(blob);
+  await ctx.audioWorklet.addModule(workletUrl);
+  URL.revokeObjectURL(workletUrl);
+
+  return new AudioWorkletNode(ctx, "pcm-processor", {
+    processorOptions: {
+      sampleRate: options.sampleRate ?? ctx.sampleRate,
+      frameMs: options.frameMs ?? DEFAULT_FRAME_MS,
+    },
+  });
+}
@@ -0,0 +1,65 @@
+import { SanasTranslationClient } from "./SanasTranslationClient";
+
+export interface PushToTalkKeyOptions {
+  /** KeyboardEvent.code of the key to hold. Defaults to "Space". */
+  code?: string;
+  /** Where to listen for key events. Defaults to window. */
+  target?: EventTarget;
+}
+
+const EDITABLE_TAGS = ["INPUT", "TEXTAREA", "SELECT"];
+
+/**
+ * Talk while a key is held: pressing it calls client.startTalking(), and
+ * releasing it, or the page losing focus, calls client.stopTalking(). Keys
+ * typed into form fields are left alone. Returns a function that removes
+ * the binding.
+ */
+export function bindPushToTalkKey(
+  client: SanasTranslationClient,
+  options: PushToTalkKeyOptions = {},
+): () => void {
+  const code = options.code ?? "Space";
+  const target = options.target ?? window;
+  let holding = false;
+
+  const release = () => {
+    if (!holding) return;
+    holding = false;
+    if (client.isConnected) client.stopTalking();
+  };
+
+  const onKeyDown = (event: Event) => {
+    const key = event as KeyboardEvent;
+    if (key.code !== code || isEditable(key.target)) return;
+    // Keep e.g. Space from scrolling the page or pressing a focused button.
+    key.preventDefault();
+    if (holding || !client.isConnected) return;
+    holding = true;
+    client.startTalking();
+  };
+
+  const onKeyUp = (event: Event) => {
+    if ((event as KeyboardEvent).code === code) release();
+  };
+
+  target.addEventListener("keydown", onKeyDown);
+  target.addEventListener("keyup", onKeyUp);
+  target.addEventListener("blur", release);
+
+  return () => {
+    target.removeEventListener("keydown", onKeyDown);
+    target.removeEventListener("keyup", onKeyUp);
+    target.removeEventListener("blur", release);
+    release();
+  };
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return (
+    !!element &&
+    (element.isContentEditable === true ||
+      EDITABLE_TAGS.includes(element.tagName))
+  );
+}
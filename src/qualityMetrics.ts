@@ -0,0 +1,221 @@
+import { AudioStreamMetrics, QualityGrade, QualityMetrics } from "./types";
+
+/* eslint-disable no-undef */
+type Stats = RTCStats;
+
+/** getStats() reports by id. Narrow them on `type` with isStats(). */
+export type StatsReports = Map<string, Stats>;
+
+// Stats that lib.dom leaves out or declares only in part.
+interface RemoteInboundRtpStats extends RTCReceivedRtpStreamStats {
+  fractionLost?: number;
+  roundTripTime?: number;
+}
+
+interface MediaSourceStats extends Stats {
+  kind: string;
+  audioLevel?: number;
+}
+
+interface CandidatePairStats extends RTCIceCandidatePairStats {
+  /** Firefox flags the active pair rather than naming it on the transport. */
+  selected?: boolean;
+}
+
+interface IceCandidateStats extends Stats {
+  candidateType: RTCIceCandidateType;
+  protocol?: string;
+  relayProtocol?: string;
+}
+
+interface StatsByType {
+  "inbound-rtp": RTCInboundRtpStreamStats;
+  "outbound-rtp": RTCOutboundRtpStreamStats;
+  "remote-inbound-rtp": RemoteInboundRtpStats;
+  "media-source": MediaSourceStats;
+  "candidate-pair": CandidatePairStats;
+  "local-candidate": IceCandidateStats;
+  "remote-candidate": IceCandidateStats;
+  transport: RTCTransportStats;
+}
+/* eslint-enable no-undef */
+
+type AudioStatsType =
+  | "inbound-rtp"
+  | "outbound-rtp"
+  | "remote-inbound-rtp"
+  | "media-source";
+
+/** Above `fair` a metric grades as fair, above `poor` as poor. */
+const GRADE_THRESHOLDS = {
+  roundTripTimeMs: { fair: 250, poor: 500 },
+  packetLoss: { fair: 0.02, poor: 0.08 },
+  jitterMs: { fair: 30, poor: 60 },
+};
+
+const GRADES: QualityGrade[] = ["good", "fair", "poor"];
+
+interface RtpCounters {
+  timestamp: number;
+  bytes: number;
+  packets: number;
+  packetsLost: number;
+}
+
+export function statsReports(stats: RTCStatsReport): StatsReports {
+  const reports: StatsReports = new Map();
+  stats.forEach((report: Stats) => reports.set(report.id, report));
+  return reports;
+}
+
+export function isStats<T extends keyof StatsByType>(
+  report: Stats | undefined,
+  type: T,
+): report is StatsByType[T] {
+  return report?.type === type;
+}
+
+/**
+ * The active candidate pair: via the transport's selectedCandidatePairId
+ * (Chrome, Safari), or the pair flagged as selected (Firefox).
+ */
+export function findSelectedPairReport(
+  reports: StatsReports,
+): CandidatePairStats | null {
+  for (const report of reports.values()) {
+    if (isStats(report, "transport") && report.selectedCandidatePairId) {
+      const pair = reports.get(report.selectedCandidatePairId);
+      if (isStats(pair, "candidate-pair")) return pair;
+    }
+  }
+  for (const report of reports.values()) {
+    if (isStats(report, "candidate-pair") && report.selected) {
+      return report;
+    }
+  }
+  return null;
+}
+
+/** Summarise metrics as the worst grade of round-trip time, loss and jitter. */
+export function gradeQuality(
+  metrics: Omit<QualityMetrics, "grade" | "timestamp">,
+): QualityGrade {
+  const values = {
+    roundTripTimeMs: [metrics.roundTripTimeMs],
+    packetLoss: [metrics.inbound.packetLoss, metrics.outbound.packetLoss],
+    jitterMs: [metrics.inbound.jitterMs, metrics.outbound.jitterMs],
+  };
+
+  let worst = 0;
+  for (const key of Object.keys(values) as (keyof typeof values)[]) {
+    const thresholds = GRADE_THRESHOLDS[key];
+    for (const value of values[key]) {
+      if (value === null) continue;
+      if (value > thresholds.poor) worst = Math.max(worst, 2);
+      else if (value > thresholds.fair) worst = Math.max(worst, 1);
+    }
+  }
+  return GRADES[worst];
+}
+
+/**
+ * Turns successive getStats() reports into QualityMetrics. Bitrate and packet
+ * loss cover the interval since the previous sample.
+ */
+export class QualityMetricsSampler {
+  private inbound: RtpCounters | null = null;
+  private outbound: RtpCounters | null = null;
+
+  sample(stats: RTCStatsReport): QualityMetrics {
+    const reports = statsReports(stats);
+    const audio = <T extends AudioStatsType>(type: T) =>
+      [...reports.values()].find(
+        (report): report is StatsByType[T] =>
+          isStats(report, type) && (report.kind ?? "audio") === "audio",
+      );
+
+    const inboundRtp = audio("inbound-rtp");
+    const outboundRtp = audio("outbound-rtp");
+    const remoteInbound = audio("remote-inbound-rtp");
+    const source = outboundRtp?.mediaSourceId
+      ? reports.get(outboundRtp.mediaSourceId)
+      : undefined;
+    const mediaSource = isStats(source, "media-source")
+      ? source
+      : audio("media-source");
+    const pair = findSelectedPairReport(reports);
+
+    const inbound: AudioStreamMetrics = {
+      bitrateKbps: null,
+      packetLoss: null,
+      jitterMs: secondsToMs(inboundRtp?.jitter),
+      audioLevel: inboundRtp?.audioLevel ?? null,
+    };
+    if (inboundRtp) {
+      const counters: RtpCounters = {
+        timestamp: inboundRtp.timestamp,
+        bytes: inboundRtp.bytesReceived ?? 0,
+        packets: inboundRtp.packetsReceived ?? 0,
+        packetsLost: inboundRtp.packetsLost ?? 0,
+      };
+      inbound.bitrateKbps = bitrate(this.inbound, counters);
+      inbound.packetLoss = lossRatio(
+        counters.packetsLost - (this.inbound?.packetsLost ?? 0),
+        counters.packets - (this.inbound?.packets ?? 0),
+      );
+      this.inbound = counters;
+    }
+
+    const outbound: AudioStreamMetrics = {
+      bitrateKbps: null,
+      packetLoss: remoteInbound?.fractionLost ?? null,
+      jitterMs: secondsToMs(remoteInbound?.jitter),
+      audioLevel: mediaSource?.audioLevel ?? null,
+    };
+    if (outboundRtp) {
+      const counters: RtpCounters = {
+        timestamp: outboundRtp.timestamp,
+        bytes: outboundRtp.bytesSent ?? 0,
+        packets: outboundRtp.packetsSent ?? 0,
+        packetsLost: remoteInbound?.packetsLost ?? 0,
+      };
+      outbound.bitrateKbps = bitrate(this.outbound, counters);
+      if (outbound.packetLoss === null && remoteInbound && this.outbound) {
+        const lost = counters.packetsLost - this.outbound.packetsLost;
+        outbound.packetLoss = lossRatio(
+          lost,
+          counters.packets - this.outbound.packets - lost,
+        );
+      }
+      this.outbound = counters;
+    }
+
+    const metrics = {
+      roundTripTimeMs:
+        secondsToMs(pair?.currentRoundTripTime) ??
+        secondsToMs(remoteInbound?.roundTripTime),
+      inbound,
+      outbound,
+    };
+    return { grade: gradeQuality(metrics), ...metrics, timestamp: Date.now() };
+  }
+}
+
+function secondsToMs(value: number | undefined): number | null {
+  return typeof value === "number" ? value * 1000 : null;
+}
+
+function bitrate(
+  previous: RtpCounters | null,
+  current: RtpCounters,
+): number | null {
+  if (!previous) return null;
+  const elapsedMs = current.timestamp - previous.timestamp;
+  if (elapsedMs <= 0) return null;
+  return ((current.bytes - previous.bytes) * 8) / elapsedMs;
+}
+
+function lossRatio(lost: number, received: number): number | null {
+  const total = lost + received;
+  return total > 0 ? Math.max(0, lost) / total : null;
+}
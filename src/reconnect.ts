@@ -0,0 +1,113 @@
+import { ReconnectOptions } from "./types";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_INITIAL_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10000;
+const DEFAULT_MULTIPLIER = 2;
+const DEFAULT_JITTER = 0.3;
+
+type BackoffKeys =
+  | "maxAttempts"
+  | "initialDelayMs"
+  | "maxDelayMs"
+  | "multiplier"
+  | "jitter";
+
+export type ResolvedReconnectOptions = ReconnectOptions &
+  Required<Pick<ReconnectOptions, BackoffKeys>>;
+
+/** Normalize the `reconnect` connect option. Returns null when disabled. */
+export function resolveReconnectOptions(
+  reconnect: boolean | ReconnectOptions | undefined,
+): ResolvedReconnectOptions | null {
+  if (!reconnect) return null;
+  const options = reconnect === true ? {} : reconnect;
+  return {
+    ...options,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    initialDelayMs: options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    multiplier: options.multiplier ?? DEFAULT_MULTIPLIER,
+    jitter: options.jitter ?? DEFAULT_JITTER,
+  };
+}
+
+/**
+ * Exponential backoff delay for the given 1-based attempt, with symmetric
+ * random jitter applied as a ratio of the base delay.
+ */
+export function computeReconnectDelay(
+  attempt: number,
+  options: ResolvedReconnectOptions,
+): number {
+  const base = Math.min(
+    options.maxDelayMs,
+    options.initialDelayMs * Math.pow(options.multiplier, attempt - 1),
+  );
+  const jitter = base * options.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(base + jitter));
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+/**
+ * Subscribe to browser `online`/`offline` events. No-op outside the browser.
+ * Returns an unsubscribe function.
+ */
+export function onNetworkChange(
+  listener: (online: boolean) => void,
+): () => void {
+  const target = globalThis as unknown as Partial<EventTarget>;
+  if (
+    typeof target.addEventListener !== "function" ||
+    typeof target.removeEventListener !== "function"
+  ) {
+    return () => {};
+  }
+
+  const handleOnline = () => listener(true);
+  const handleOffline = () => listener(false);
+  target.addEventListener("online", handleOnline);
+  target.addEventListener("offline", handleOffline);
+  return () => {
+    target.removeEventListener!("online", handleOnline);
+    target.removeEventListener!("offline", handleOffline);
+  };
+}
+
+/**
+ * Wait out a backoff delay. If the browser is offline when the delay elapses,
+ * keep waiting until it comes back online; coming back online also ends the
+ * delay early. Resolves as soon as `signal` aborts.
+ */
+export function waitForReconnectDelay(
+  delayMs: number,
+  signal: AbortSignal,
+): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+
+    const finish = () => {
+      clearTimeout(timer);
+      unsubscribe();
+      signal.removeEventListener("abort", finish);
+      resolve();
+    };
+
+    const unsubscribe = onNetworkChange((online) => {
+      if (online) finish();
+    });
+
+    // An offline browser past its delay keeps waiting for the online event.
+    const timer = setTimeout(() => {
+      if (!isOffline()) finish();
+    }, delayMs);
+
+    signal.addEventListener("abort", finish);
+  });
+}
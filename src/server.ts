@@ -0,0 +1,57 @@
+import { AuthError, errorFromStatus } from "./errors";
+import { AccessToken, SessionTokenScope } from "./types";
+
+export interface CreateSessionTokenOptions {
+  /** API key that mints the token. Keep it on your server. */
+  apiKey: string;
+  /** LT server endpoint URL. */
+  endpoint: string;
+  /** Token lifetime in seconds. The server caps it and picks the default. */
+  ttlSeconds?: number;
+  /** What the token may be used for. The server picks the default. */
+  scopes?: SessionTokenScope[];
+}
+
+export interface SessionToken extends AccessToken {
+  /** When the token expires, as epoch ms. */
+  expiresAt: number;
+  scopes: SessionTokenScope[];
+}
+
+/**
+ * Mint a short-lived, scope-limited session token from an API key, for a
+ * backend to hand to browser clients so they never hold the key. The result
+ * is plain JSON and can be returned as is from an AccessTokenProvider.
+ */
+export async function createSessionToken(
+  options: CreateSessionTokenOptions,
+): Promise<SessionToken> {
+  const response = await fetch(`${options.endpoint}/v2/session-tokens`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-API-Key": options.apiKey,
+    },
+    body: JSON.stringify({
+      ttl_seconds: options.ttlSeconds,
+      scopes: options.scopes,
+    }),
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new AuthError("Invalid API key.", { status: response.status });
+    }
+    throw errorFromStatus(
+      response.status,
+      `Failed to create session token: ${response.status}`,
+    );
+  }
+
+  const { data } = await response.json();
+  return {
+    token: data.token,
+    expiresAt: Date.now() + data.expires_in * 1000,
+    scopes: data.scopes,
+  };
+}
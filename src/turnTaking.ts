@@ -0,0 +1,229 @@
+import { int16ToFloat32 } from "./audio";
+import { LTMessage, TurnState } from "./types";
+
+// Peak below which a chunk counts as silence (about -42 dBFS).
+const SILENCE_PEAK = 256;
+
+/** A source node for Int16 PCM, connected to `destination` but not started. */
+export function createPcmSource(
+  ctx: AudioContext,
+  destination: AudioNode,
+  samples: Int16Array,
+  sampleRate: number,
+  playbackRate = 1,
+): AudioBufferSourceNode {
+  const float32 = int16ToFloat32(samples);
+  const buffer = ctx.createBuffer(1, float32.length, sampleRate);
+  buffer.getChannelData(0).set(float32);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  if (playbackRate !== 1) source.playbackRate.value = playbackRate;
+  source.connect(destination);
+  return source;
+}
+
+export interface TurnGateOptions {
+  /** Sample rate of the audio pushed. */
+  sampleRate: number;
+  /** Play (or deliver) released audio. */
+  play: (samples: Int16Array) => void;
+  /** Seconds until released audio has finished playing. */
+  remainingPlayback: () => number;
+  onTurnStateChange?: (state: TurnState) => void;
+}
+
+/**
+ * A stretch of pushed audio and where it falls in the released audio. Audio
+ * that is kept runs on in step; dropped silence takes no released time.
+ */
+interface Segment {
+  inputTime: number;
+  outputTime: number;
+  kept: boolean;
+}
+
+interface HeldDelimiter {
+  time: number;
+  deliver: (time: number) => void;
+}
+
+// Segments only start where audio switches between kept and dropped.
+const MAX_SEGMENTS = 256;
+
+/**
+ * Consecutive interpretation: translated audio is held while the speaker has
+ * the turn and released when it ends, on speech_stop or push-to-talk release.
+ * A turn starts with transcribed words of a new utterance or on push-to-talk.
+ *
+ * Speech delimiters are held with their audio, and their times moved from the
+ * pushed audio's timeline onto the released audio's.
+ */
+export class TurnGate {
+  private options: TurnGateOptions;
+  private state: TurnState = "listening";
+  private held: Int16Array[] = [];
+  /** Seconds of audio held. */
+  private heldTime = 0;
+  private heldDelimiters: HeldDelimiter[] = [];
+  /** Seconds of audio pushed. */
+  private inputTime = 0;
+  /** Seconds of audio kept, whether released yet or held. */
+  private outputTime = 0;
+  private segments: Segment[] = [];
+  private lastUtteranceIdx = -1;
+  private endedUtteranceIdx = -1;
+  private playbackTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: TurnGateOptions) {
+    this.options = options;
+  }
+
+  /** Follow turns from the LT messages the transport delivers. */
+  observe(message: LTMessage): void {
+    if (message.type === "transcription") {
+      const { complete, partial, typed } = message.transcription;
+      const utteranceIdx = message.transcription.utterance_idx;
+      // Late updates to an utterance that already ended do not start a turn,
+      // and neither does typed text.
+      if (
+        !typed &&
+        utteranceIdx > this.endedUtteranceIdx &&
+        complete.length + partial.length > 0
+      ) {
+        this.startTurn();
+      }
+      this.lastUtteranceIdx = Math.max(this.lastUtteranceIdx, utteranceIdx);
+    } else if (message.type === "speech_stop") {
+      this.endTurn();
+    }
+  }
+
+  startTurn(): void {
+    if (this.state === "speaking") return;
+    this.clearPlaybackTimer();
+    this.setState("speaking");
+  }
+
+  endTurn(): void {
+    this.endedUtteranceIdx = this.lastUtteranceIdx;
+    if (this.state !== "speaking") return;
+
+    const held = this.held;
+    this.held = [];
+    this.heldTime = 0;
+    this.setState(held.length > 0 ? "interpreting" : "listening");
+    for (const samples of held) this.release(samples);
+
+    const delimiters = this.heldDelimiters;
+    this.heldDelimiters = [];
+    for (const { time, deliver } of delimiters) {
+      deliver(this.releasedTime(time));
+    }
+  }
+
+  /** Translated audio from the server. */
+  push(samples: Int16Array): void {
+    const speaking = this.state === "speaking";
+    // Silence is dropped while held so the translation plays without gaps.
+    const kept = !speaking || isAudible(samples);
+    this.addSegment(kept);
+    const duration = samples.length / this.options.sampleRate;
+    this.inputTime += duration;
+    if (!kept) return;
+
+    this.outputTime += duration;
+    if (speaking) {
+      this.held.push(samples);
+      this.heldTime += duration;
+    } else {
+      this.release(samples);
+    }
+  }
+
+  /**
+   * A speech delimiter at `time` on the pushed audio's timeline. `deliver`
+   * gets its time on the released audio's timeline, once that audio is
+   * released.
+   */
+  delimit(time: number, deliver: (time: number) => void): void {
+    const releasedTime = this.releasedTime(time);
+    if (
+      this.state === "speaking" &&
+      releasedTime >= this.outputTime - this.heldTime
+    ) {
+      this.heldDelimiters.push({ time, deliver });
+    } else {
+      deliver(releasedTime);
+    }
+  }
+
+  dispose(): void {
+    this.clearPlaybackTimer();
+    this.held = [];
+    this.heldTime = 0;
+    this.heldDelimiters = [];
+  }
+
+  /** Where `inputTime` falls in the released audio. */
+  private releasedTime(inputTime: number): number {
+    // Audio not pushed yet is assumed to follow what has been.
+    if (inputTime >= this.inputTime) {
+      return this.outputTime + (inputTime - this.inputTime);
+    }
+    for (let i = this.segments.length - 1; i >= 0; i--) {
+      const segment = this.segments[i];
+      if (segment.inputTime <= inputTime) {
+        return segment.kept
+          ? segment.outputTime + (inputTime - segment.inputTime)
+          : segment.outputTime;
+      }
+    }
+    return this.segments[0]?.outputTime ?? this.outputTime;
+  }
+
+  private addSegment(kept: boolean): void {
+    if (this.segments[this.segments.length - 1]?.kept === kept) return;
+    this.segments.push({
+      inputTime: this.inputTime,
+      outputTime: this.outputTime,
+      kept,
+    });
+    if (this.segments.length > MAX_SEGMENTS) this.segments.shift();
+  }
+
+  private release(samples: Int16Array): void {
+    this.options.play(samples);
+    if (!isAudible(samples)) return;
+
+    if (this.state === "listening") this.setState("interpreting");
+    this.clearPlaybackTimer();
+    this.playbackTimer = setTimeout(
+      () => {
+        this.playbackTimer = null;
+        if (this.state === "interpreting") this.setState("listening");
+      },
+      Math.max(0, this.options.remainingPlayback()) * 1000,
+    );
+  }
+
+  private clearPlaybackTimer(): void {
+    if (this.playbackTimer) {
+      clearTimeout(this.playbackTimer);
+      this.playbackTimer = null;
+    }
+  }
+
+  private setState(state: TurnState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onTurnStateChange?.(state);
+  }
+}
+
+function isAudible(samples: Int16Array): boolean {
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.abs(samples[i]) >= SILENCE_PEAK) return true;
+  }
+  return false;
+}
@@ -1,3 +1,4 @@
+import { SanasError } from "../errors";
 import { LTMessage } from "./ltMessages";
 import { ConnectionState, StreamMessage } from "./streamMessages";
 import { Word } from "./words";
@@ -17,31 +18,108 @@ export interface TranslationStateCallbacks {
   onSpeechLanguages?: (langIn: string, langOut: string) => void;
   onSpeechStop?: () => void;
   onConnectionStateChange?: (state: ConnectionState) => void;
-  onError?: (error: string) => void;
+  /** `message` is for display; branch on `error.code`. */
+  onError?: (message: string, error: SanasError) => void;
 }
 
 // --- Client options ---
 
-export interface SanasTranslationClientOptions {
+export interface AccessToken {
+  token: string;
+  /** When the token expires, as epoch ms. Enables refreshing it ahead of time. */
+  expiresAt?: number;
+}
+
+export interface AccessTokenRequest {
+  /** The previous token was rejected or is about to expire: do not return it again. */
+  forceRefresh: boolean;
+}
+
+/** Supplies an access token. Called before every request that authenticates. */
+export type AccessTokenProvider = (
+  request: AccessTokenRequest,
+) => string | AccessToken | Promise<string | AccessToken>;
+
+/**
+ * What a session token may be used for: "translate" opens sessions (and
+ * fetches TURN credentials), "languages" lists languages.
+ */
+export type SessionTokenScope = "translate" | "languages";
+
+export interface Credentials {
   /** API key authentication. Use this OR accessToken, not both. */
   apiKey?: string;
-  /** OAuth access token authentication. Use this OR apiKey, not both. */
-  accessToken?: string;
+  /**
+   * OAuth access token authentication, as a fixed token or a provider that
+   * is asked for a fresh one when the server rejects it. Use this OR apiKey.
+   */
+  accessToken?: string | AccessTokenProvider;
+  /**
+   * Refresh a provider's token this many ms before its expiresAt, so that
+   * reconnects do not start with a token about to lapse. Defaults to 30000.
+   */
+  tokenRefreshMarginMs?: number;
+}
+
+export interface SanasTranslationClientOptions extends Credentials {
   /** LT server endpoint URL. */
   endpoint: string;
   /** Fires with every StreamMessage for relay to other participants. */
   onMessage?: (message: StreamMessage) => void;
   /** Fires with raw output audio data (Int16 PCM) as received from the server. */
   onAudioData?: (samples: Int16Array, sampleRate: number) => void;
+  /** Fires periodically with connection quality, on transports that measure it (WebRTC). */
+  onQualityMetrics?: (metrics: QualityMetrics) => void;
+  /**
+   * Run without Web Audio (e.g. in Node.js). Speech delimiters are scheduled
+   * on a timer instead of an AudioContext. Requires a headless transport.
+   */
+  headless?: boolean;
 }
 
 export type SampleRate = 8000 | 16000 | 24000;
 
+/** Duration of each frame of captured audio, in ms. */
+export type FrameMs = 10 | 20 | 40;
+
+/**
+ * "simultaneous" plays the translation while the speaker talks;
+ * "consecutive" holds it until the speaker's turn ends.
+ */
+export type InterpretationMode = "simultaneous" | "consecutive";
+
+/**
+ * Turn-taking in consecutive mode: waiting for the speaker, the speaker has
+ * the turn (its translation is held back), or the translation is playing.
+ */
+export type TurnState = "listening" | "speaking" | "interpreting";
+
 export interface ConnectOptions {
   /** Transport implementation to use (WebRTC or WebSocket). */
   transport: Transport;
-  /** Audio track to send to the server (from mic, file, etc.). */
-  audioTrack: MediaStreamTrack;
+  /**
+   * Audio track to send to the server (from mic, file, etc.). Headless
+   * transports take raw PCM through sendAudio() instead.
+   */
+  audioTrack?: MediaStreamTrack;
+  /**
+   * Audio to send to the server, as an alternative to audioTrack. Consumed
+   * once the session has been configured with reset().
+   */
+  audioSource?: AudioSource;
+  /** Fires once a finite audioSource has been fully sent. */
+  onAudioSourceEnd?: () => void;
+  /**
+   * Connect without audio input, to translate text sent with sendText().
+   * Translated audio is still received for text sent with `synthesize`.
+   */
+  textOnly?: boolean;
+  /** Keep input muted except between startTalking() and stopTalking(). */
+  pushToTalk?: boolean;
+  /** Interpretation mode. Defaults to "simultaneous". */
+  mode?: InterpretationMode;
+  /** Fires as turns change in consecutive mode. */
+  onTurnStateChange?: (state: TurnState) => void;
   /** Conversation ID to join. */
   conversationId?: string | null;
   /** Display name for this participant. */
@@ -50,11 +128,53 @@ export interface ConnectOptions {
   inputSampleRate?: SampleRate;
   /** Output audio sample rate in Hz. Defaults to 16000. */
   outputSampleRate?: SampleRate;
+  /**
+   * Automatically reconnect when the transport drops. Pass `true` for the
+   * default policy or an object to tune it. Disabled by default.
+   */
+  reconnect?: boolean | ReconnectOptions;
+  /** Abort the connection attempt. */
+  signal?: AbortSignal;
+  /** Fail with a TimeoutError if not connected within this many ms. */
+  timeoutMs?: number;
+}
+
+/**
+ * A stream of mono Int16 PCM chunks. Iteration ends when the audio does (e.g.
+ * at the end of a file). Breaking out of an iteration must not end the source:
+ * a new iteration continues where the previous one stopped.
+ */
+export interface AudioSource extends AsyncIterable<Int16Array> {
+  /** Sample rate of the chunks in Hz. */
+  readonly sampleRate: number;
+  /** The underlying track, when the source wraps a MediaStreamTrack. */
+  readonly track?: MediaStreamTrack;
+  /** Stop producing audio and release resources. */
+  close(): void;
+}
+
+export interface ReconnectOptions {
+  /** Maximum number of attempts before giving up. Defaults to 5. */
+  maxAttempts?: number;
+  /** Delay before the first attempt in ms. Defaults to 500. */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay in ms. Defaults to 10000. */
+  maxDelayMs?: number;
+  /** Backoff multiplier applied per attempt. Defaults to 2. */
+  multiplier?: number;
+  /** Random jitter as a ratio of the delay (0..1). Defaults to 0.3. */
+  jitter?: number;
+  /** Fires before each attempt is scheduled. */
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+  /** Fires once the transport is back, with the new translated audio stream. */
+  onReconnected?: (result: ConnectResult, attempts: number) => void;
+  /** Fires when all attempts failed or one failed unrecoverably; the client is then disconnected. */
+  onReconnectFailed?: (attempts: number) => void;
 }
 
 export interface ConnectResult {
-  /** The translated audio stream from the server. */
-  audio: MediaStream;
+  /** The translated audio stream from the server, or null when headless. */
+  audio: MediaStream | null;
 }
 
 export interface ResetOptions {
@@ -72,15 +192,25 @@ export interface ResetOptions {
   canLangSwap?: boolean;
   /** Whether to enable language detection. */
   detectLanguages?: boolean;
+  /** Stop waiting for the server's ready. */
+  signal?: AbortSignal;
+  /** Fail with a TimeoutError if the server is not ready within this many ms. */
+  timeoutMs?: number;
+}
+
+export interface SendTextOptions {
+  /** Also speak the translation in the output audio. Defaults to false. */
+  synthesize?: boolean;
 }
 
 // --- Transport abstraction ---
 
 export interface TransportCallbacks {
   onMessage: (message: LTMessage) => void;
-  onError: (error: string) => void;
+  onError: (error: SanasError) => void;
   onConnectionStateChange: (state: ConnectionState) => void;
   onAudioData?: (samples: Int16Array, sampleRate: number) => void;
+  onQualityMetrics?: (metrics: QualityMetrics) => void;
 }
 
 export interface Transport {
@@ -89,15 +219,51 @@ export interface Transport {
     clientOptions: SanasTranslationClientOptions,
     callbacks: TransportCallbacks,
   ): Promise<ConnectResult>;
-  /** Send language/config settings. Returns a reset ID (WebRTC) or null (WebSocket). */
+  /** Send language/config settings. Returns the reset ID its ready will carry, or null if not sent. */
   configure(options: ResetOptions): string | null;
   disconnect(): void;
   /** Wait for any pending audio playback to finish before tearing down. */
   drainAudio(): Promise<void>;
   setAudioEnabled(enabled: boolean): void;
+  /** Send audio from another track without renegotiating, if supported. */
+  replaceAudioTrack?(track: MediaStreamTrack): Promise<void>;
+  /** Send raw Int16 PCM input at the input sample rate, if supported. */
+  sendAudio?(samples: Int16Array): void;
+  /** Tell the server speech starts or stops, so it can end the utterance at once. */
+  sendRecording?(recording: "start" | "stop"): void;
+  /** Submit typed text to translate as its own utterance, if supported. */
+  sendText?(text: string, options: SendTextOptions): void;
   readonly sessionId: string | null;
 }
 
+// --- Connection quality ---
+
+export type QualityGrade = "good" | "fair" | "poor";
+
+export interface AudioStreamMetrics {
+  /** Bitrate over the last interval in kbit/s. */
+  bitrateKbps: number | null;
+  /** Fraction of packets lost over the last interval (0..1). */
+  packetLoss: number | null;
+  /** Packet jitter in ms. */
+  jitterMs: number | null;
+  /** Audio level (0..1). */
+  audioLevel: number | null;
+}
+
+export interface QualityMetrics {
+  /** Summary of the metrics below, for a network indicator. */
+  grade: QualityGrade;
+  /** Round-trip time to the server in ms. */
+  roundTripTimeMs: number | null;
+  /** Translated audio received from the server. */
+  inbound: AudioStreamMetrics;
+  /** Audio sent to the server, with loss and jitter as reported by the server. */
+  outbound: AudioStreamMetrics;
+  /** Time of the measurement (ms since epoch). */
+  timestamp: number;
+}
+
 // --- Display types ---
 
 export interface UtteranceStreamDisplay {
@@ -116,6 +282,8 @@ export interface UtteranceDisplay {
   transcription: UtteranceStreamDisplay;
   /** Translation display data for this utterance. */
   translation: UtteranceStreamDisplay;
+  /** Whether the utterance was typed (sendText()) rather than spoken. */
+  typed: boolean;
 }
 
 export interface IdentifiedLanguageDisplay {
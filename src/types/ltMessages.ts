@@ -27,11 +27,24 @@ export const WrappedRecordingMessage = z.object({
 });
 export type WrappedRecordingMessage = z.infer<typeof WrappedRecordingMessage>;
 
+export const TextMessage = z.object({
+  text: z.string(),
+  synthesize: z.boolean().optional(),
+});
+export type TextMessage = z.infer<typeof TextMessage>;
+
+export const WrappedTextMessage = z.object({
+  type: z.literal("text"),
+  text: TextMessage,
+});
+export type WrappedTextMessage = z.infer<typeof WrappedTextMessage>;
+
 export const TranscriptionMessage = z.object({
   complete: z.array(Word),
   partial: z.array(Word),
   lang: z.string().nullable().optional(),
   utterance_idx: z.number(),
+  typed: z.boolean().optional(),
 });
 export type TranscriptionMessage = z.infer<typeof TranscriptionMessage>;
 
@@ -129,6 +142,7 @@ export type WrappedReadyMessage = z.infer<typeof WrappedReadyMessage>;
 export const LTMessage = z.discriminatedUnion("type", [
   WrappedResetMessage,
   WrappedRecordingMessage,
+  WrappedTextMessage,
   WrappedTranscriptionMessage,
   WrappedTranslationMessage,
   WrappedSpeechDelimiterMessage,
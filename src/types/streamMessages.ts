@@ -6,6 +6,7 @@ export const ConnectionState = z.enum([
   "disconnected",
   "connecting",
   "connected",
+  "reconnecting",
 ]);
 export type ConnectionState = z.infer<typeof ConnectionState>;
 
@@ -21,9 +22,25 @@ export const TransportStreamMessage = z.object({
 });
 export type TransportStreamMessage = z.infer<typeof TransportStreamMessage>;
 
+export const ErrorCode = z.enum([
+  "auth",
+  "permission",
+  "network",
+  "protocol",
+  "server",
+  "timeout",
+  "microphone",
+  "audio-source",
+]);
+export type ErrorCode = z.infer<typeof ErrorCode>;
+
 export const ErrorStreamMessage = z.object({
   type: z.literal("error"),
   message: z.string(),
+  code: ErrorCode.optional(),
+  recoverable: z.boolean().optional(),
+  status: z.number().optional(),
+  cause: z.string().optional(),
 });
 export type ErrorStreamMessage = z.infer<typeof ErrorStreamMessage>;
 
@@ -12,6 +12,7 @@ export const Utterance = z.object({
   partial: z.array(Word),
   idx: z.number(),
   isFromSelf: z.boolean(),
+  typed: z.boolean().optional(),
   createdAt: z.number(),
   updatedAt: z.number(),
 });
@@ -1,11 +1,14 @@
 import { z } from "zod";
 
 import { Delimiter } from "./delimiters";
+import { IdentifiedLanguage } from "./ltMessages";
 import { Word } from "./words";
 
 export const WSReadyMessage = z.object({
   type: z.literal("ready"),
+  id: z.string().nullable().optional(),
   session_id: z.string().optional(),
+  binary_audio: z.boolean().optional(),
 });
 export type WSReadyMessage = z.infer<typeof WSReadyMessage>;
 
@@ -13,6 +16,8 @@ export const WSTranscriptionMessage = z.object({
   type: z.literal("transcription"),
   complete: z.array(Word),
   partial: z.array(Word),
+  utterance_idx: z.number().optional(),
+  typed: z.boolean().optional(),
 });
 export type WSTranscriptionMessage = z.infer<typeof WSTranscriptionMessage>;
 
@@ -20,6 +25,7 @@ export const WSTranslationMessage = z.object({
   type: z.literal("translation"),
   complete: z.array(Word),
   partial: z.array(Word),
+  utterance_idx: z.number().optional(),
 });
 export type WSTranslationMessage = z.infer<typeof WSTranslationMessage>;
 
@@ -33,8 +39,9 @@ export type WSSpeechDelimiterMessage = z.infer<typeof WSSpeechDelimiterMessage>;
 
 export const WSLanguagesMessage = z.object({
   type: z.literal("languages"),
-  lang_in: z.string(),
-  lang_out: z.string(),
+  lang_in: z.string().optional(),
+  lang_out: z.string().optional(),
+  languages: z.array(IdentifiedLanguage).optional(),
 });
 export type WSLanguagesMessage = z.infer<typeof WSLanguagesMessage>;
 
@@ -50,6 +57,11 @@ export const WSSpeechStopMessage = z.object({
 });
 export type WSSpeechStopMessage = z.infer<typeof WSSpeechStopMessage>;
 
+export const WSPongMessage = z.object({
+  type: z.literal("pong"),
+});
+export type WSPongMessage = z.infer<typeof WSPongMessage>;
+
 export const WSErrorMessage = z.object({
   type: z.literal("error"),
   message: z.string(),
@@ -65,6 +77,69 @@ export const WSMessage = z.discriminatedUnion("type", [
   WSLanguagesMessage,
   WSAudioMessage,
   WSSpeechStopMessage,
+  WSPongMessage,
   WSErrorMessage,
 ]);
 export type WSMessage = z.infer<typeof WSMessage>;
+
+// Messages sent by the client
+
+export const WSAuthMessage = z.object({
+  type: z.literal("auth"),
+  token: z.string().optional(),
+  api_key: z.string().optional(),
+});
+export type WSAuthMessage = z.infer<typeof WSAuthMessage>;
+
+export const WSConfigMessage = z.object({
+  type: z.literal("config"),
+  id: z.string(),
+  lang_in: z.string(),
+  lang_out: z.string(),
+  input_sample_rate: z.number(),
+  output_sample_rate: z.number(),
+  voice_id: z.string().nullable().optional(),
+  glossary: z.array(z.string()).nullable().optional(),
+  clear_history: z.boolean().optional(),
+  can_lang_swap: z.boolean().optional(),
+  detect_languages: z.boolean().optional(),
+  conversation_id: z.string().nullable().optional(),
+  name: z.string().nullable().optional(),
+  binary_audio: z.boolean().optional(),
+  mode: z.enum(["simultaneous", "consecutive"]).optional(),
+});
+export type WSConfigMessage = z.infer<typeof WSConfigMessage>;
+
+export const WSRecordingMessage = z.object({
+  type: z.literal("recording"),
+  recording: z.enum(["start", "stop"]),
+});
+export type WSRecordingMessage = z.infer<typeof WSRecordingMessage>;
+
+export const WSTextMessage = z.object({
+  type: z.literal("text"),
+  text: z.string(),
+  synthesize: z.boolean().optional(),
+});
+export type WSTextMessage = z.infer<typeof WSTextMessage>;
+
+export const WSStopMessage = z.object({
+  type: z.literal("stop"),
+});
+export type WSStopMessage = z.infer<typeof WSStopMessage>;
+
+export const WSPingMessage = z.object({
+  type: z.literal("ping"),
+});
+export type WSPingMessage = z.infer<typeof WSPingMessage>;
+
+export const WSOutboundMessage = z.discriminatedUnion("type", [
+  WSAuthMessage,
+  WSConfigMessage,
+  WSAudioMessage,
+  WSRecordingMessage,
+  WSTextMessage,
+  WSStopMessage,
+  WSPingMessage,
+]);
+export type WSOutboundMessage = z.infer<typeof WSOutboundMessage>;